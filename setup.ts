@@ -7,8 +7,9 @@
  */
 
 import { $, type ShellPromise } from "bun";
-import { readdir, mkdir, writeFile, stat } from "node:fs/promises";
-import { join } from "node:path";
+import { readdir, mkdir, writeFile, readFile, stat, copyFile, rename, rm, rmdir } from "node:fs/promises";
+import { dirname, join } from "node:path";
+import { parseArgs } from "node:util";
 
 // ANSI color codes for terminal output
 const colors = {
@@ -72,1422 +73,4941 @@ function select(question: string, options: string[]): Promise<number> {
   });
 }
 
-interface SetupConfig {
-  projectName: string;
-  stylingApproach: "css" | "scss" | "postcss" | "tailwind";
-  jsApproach: "vanilla" | "typescript";
-  packageManager: "bun" | "npm" | "pnpm" | "yarn";
-  shopifyEnvironment: string;
-  themeId: string | null;
-  enableTunnel?: boolean;
-  projectType?: string;
-  projectDescription?: string;
-  tomlApproach: "file" | "cli" | "skip";
-  storeUrl?: string;
-  lintingSetup: "eslint-prettier" | "theme-check" | "skip";
-  gitHooks: boolean;
-}
+type ConflictResolution = "overwrite" | "skip" | "new";
 
-async function getShopifyThemes(): Promise<Array<{ id: string; name: string; role: string }>> {
-  try {
-    const result = await $`shopify theme list --json`.text();
-    const themes = JSON.parse(result);
-    return themes;
-  } catch (error) {
-    log("Error fetching Shopify themes. Make sure you're authenticated with Shopify CLI.", colors.red);
-    return [];
-  }
-}
+const conflictResolutions: ConflictResolution[] = ["overwrite", "skip", "new"];
 
-async function askQuestions(): Promise<SetupConfig> {
-  header("Shopify Theme Development Environment Setup");
+interface WriteOptions {
+  /**
+   * Combines the file already on disk with the generated content. Returning
+   * the existing content leaves the file untouched; returning null means the
+   * two can't be merged and the user is asked what to do.
+   */
+  merge?: (existing: string, generated: string) => string | null;
+}
 
-  log("Welcome! This script will help you set up a modern Shopify theme development environment.", colors.green);
-  log("This setup includes Vite for fast development, Bun for package management, and CI/CD workflows.\n", colors.green);
+/**
+ * File and command recorder
+ *
+ * Every generator writes files and runs commands through these helpers so a
+ * --dry-run can report what setup would do without touching disk. In dry-run
+ * mode planned writes are kept in memory, so later steps that read a file back
+ * (e.g. package.json, .gitignore) see the planned content.
+ */
+const recorder = {
+  dryRun: false,
+  onConflict: undefined as ConflictResolution | undefined,
+  files: new Map<string, { content: string; existed: boolean }>(),
+  directories: new Set<string>(),
+  commands: [] as string[],
+  // Paths written during this run, which of them are new, and where the originals of replaced files were copied
+  written: new Set<string>(),
+  created: new Set<string>(),
+  // Existing files the user chose to keep; later writes in the same run leave them alone too
+  skipped: new Set<string>(),
+  createdDirs: [] as string[],
+  backups: new Map<string, string>(),
+  backupDir: join(".setup-backups", new Date().toISOString().replace(/[:.]/g, "-")),
+};
 
-  // Question 1: Project Name
-  log("Let's start with some basic information about your project.\n", colors.cyan);
-  const projectName = await prompt("📦 What is your project/store name? (e.g., 'acme-store', 'my-boutique'):");
+function formatShellValue(value: unknown): string {
+  if (Array.isArray(value)) {
+    return value.map(formatShellValue).join(" ");
+  }
+  const text = String(value);
+  return /^[\w@%+=:,./-]+$/.test(text) ? text : `'${text.replace(/'/g, `'\\''`)}'`;
+}
 
-  if (!projectName || projectName.trim() === "") {
-    log("⚠️  Project name is required. Please try again.", colors.red);
-    process.exit(1);
+async function run(strings: TemplateStringsArray, ...values: unknown[]): Promise<void> {
+  if (!recorder.dryRun) {
+    await $(strings, ...(values as Parameters<typeof $>[1][]));
+    return;
   }
 
-  // Question 2: Styling Approach
-  log("\n" + "─".repeat(60), colors.bright);
-  log("🎨 CSS Setup", colors.bright + colors.cyan);
-  log("─".repeat(60), colors.bright);
-  log("Choose your styling approach. We recommend plain CSS with CSS variables for most Shopify themes.", colors.yellow);
-  log("Note: This template enforces semantic class names (NO Tailwind-style utility classes).\n", colors.yellow);
-
-  const stylingChoice = await select(
-    "Which styling approach will you use?",
-    [
-      "Plain CSS (Recommended - simple, semantic, mobile-first)",
-      "SCSS/SASS (For variables, mixins, and nesting)",
-      "PostCSS with plugins (For advanced CSS processing)",
-      "Tailwind CSS (Utility-first - requires custom configuration)"
-    ]
+  const command = strings.reduce(
+    (result, part, index) => result + part + (index < values.length ? formatShellValue(values[index]) : ""),
+    ""
   );
-  const stylingMap: SetupConfig["stylingApproach"][] = ["css", "scss", "postcss", "tailwind"];
-  const stylingApproach = stylingMap[stylingChoice];
+  recorder.commands.push(command);
+  log(`  [dry-run] $ ${command}`, colors.magenta);
+}
 
-  if (stylingApproach === "tailwind") {
-    log("\n⚠️  Note: While Tailwind is supported, this template's guidelines emphasize semantic class names.", colors.yellow);
-    log("You'll need to adapt the CLAUDE.md guidelines if you choose to use utility classes.\n", colors.yellow);
+async function readProjectFile(path: string): Promise<string> {
+  const planned = recorder.files.get(path);
+  return planned ? planned.content : readFile(path, "utf-8");
+}
+
+async function makeDirectory(path: string) {
+  if (recorder.dryRun) {
+    recorder.directories.add(path);
+    return;
   }
+  const firstCreated = await mkdir(path, { recursive: true });
+  if (firstCreated) {
+    recorder.createdDirs.push(firstCreated);
+  }
+}
 
-  // Question 3: JavaScript Approach
-  log("\n" + "─".repeat(60), colors.bright);
-  log("⚙️  JavaScript Setup", colors.bright + colors.cyan);
-  log("─".repeat(60), colors.bright);
-  log("Choose between vanilla JavaScript or TypeScript. Vanilla JS is simpler for most Shopify themes.\n", colors.yellow);
-
-  const jsChoice = await select(
-    "Which JavaScript approach will you use?",
-    [
-      "Vanilla JavaScript (Recommended - simple, fast, perfect for Shopify)",
-      "TypeScript (For type safety, better IDE support, and larger projects)"
-    ]
-  );
-  const jsApproach: SetupConfig["jsApproach"] = jsChoice === 0 ? "vanilla" : "typescript";
+async function backupFile(path: string) {
+  if (recorder.backups.has(path) || recorder.written.has(path)) return;
 
-  // Question 4: Package Manager
-  log("\n" + "─".repeat(60), colors.bright);
-  log("📦 Package Manager", colors.bright + colors.cyan);
-  log("─".repeat(60), colors.bright);
-  log("We strongly recommend Bun - it's 3-10x faster than npm/yarn and has built-in TypeScript support.\n", colors.yellow);
-
-  const pmChoice = await select(
-    "Which package manager will you use?",
-    [
-      "Bun (Recommended - 3-10x faster, modern, built-in TypeScript)",
-      "npm (Standard Node.js package manager)",
-      "pnpm (Efficient disk usage with hard links)",
-      "yarn (Reliable alternative to npm)"
-    ]
-  );
-  const pmMap: SetupConfig["packageManager"][] = ["bun", "npm", "pnpm", "yarn"];
-  const packageManager = pmMap[pmChoice];
+  const backupPath = join(recorder.backupDir, path);
+  await mkdir(dirname(backupPath), { recursive: true });
+  await copyFile(path, backupPath);
+  recorder.backups.set(path, backupPath);
+  log(`  ↳ Backed up original to ${backupPath}`, colors.cyan);
+}
 
-  // Question 5: Theme Editor Development Setup
-  log("\n" + "─".repeat(60), colors.bright);
-  log("🔧 Development Environment", colors.bright + colors.cyan);
-  log("─".repeat(60), colors.bright);
-  log("For Shopify theme editor development, we recommend using Cloudflare tunnel to avoid CORS issues.", colors.yellow);
-  log("This requires cloudflared to be installed (brew install cloudflared).\n", colors.yellow);
-
-  const tunnelChoice = await select(
-    "Do you want to enable Cloudflare tunnel for theme editor development?",
-    [
-      "Yes (Recommended - enables HTTPS tunnel for theme editor)",
-      "No (I'll configure HTTPS with mkcert or work without theme editor)"
-    ]
-  );
-  const enableTunnel = tunnelChoice === 0;
+// Left out of command snapshots: installs, history and the backups themselves
+const unsnapshottedDirs = new Set(["node_modules", ".git", ".setup-backups"]);
+
+async function listProjectTree(dir = ".", tree = { files: [] as string[], dirs: [] as string[] }) {
+  for (const entry of await readdir(dir, { withFileTypes: true })) {
+    const path = dir === "." ? entry.name : join(dir, entry.name);
+    if (entry.isDirectory() && !unsnapshottedDirs.has(path)) {
+      tree.dirs.push(path);
+      await listProjectTree(path, tree);
+    } else if (entry.isFile()) {
+      tree.files.push(path);
+    }
+  }
+  return tree;
+}
 
-  if (enableTunnel) {
-    log("\n✓ Cloudflare tunnel will be enabled in vite.config.js", colors.green);
-    log("✓ Vite will be locked to version 6.0.8 (required for tunnel support)", colors.green);
-    log("Make sure to install cloudflared: brew install cloudflared\n", colors.yellow);
+/**
+ * Runs a command that writes into the project (shopify theme pull, vite build)
+ * so a rollback undoes it like a writeProjectFile: files and directories it adds
+ * are recorded as created, and the originals of files it changes or deletes are
+ * backed up. The tree is copied aside first, as there's no telling which files
+ * the command will touch.
+ */
+async function trackCommandWrites(command: () => Promise<void>) {
+  if (recorder.dryRun) {
+    await command();
+    return;
   }
 
-  // Question 6: Shopify Theme Configuration (TOML)
-  log("\n" + "─".repeat(60), colors.bright);
-  log("📄 Shopify Theme Configuration", colors.bright + colors.cyan);
-  log("─".repeat(60), colors.bright);
-  log("The shopify.theme.toml file stores your store URL and theme IDs for different environments.", colors.yellow);
-  log("This file will be added to .gitignore at the end of setup to protect your credentials.\n", colors.yellow);
-
-  const tomlChoice = await select(
-    "How would you like to configure Shopify store access?",
-    [
-      "Create shopify.theme.toml file (Recommended - stores environment configs)",
-      "Use Shopify CLI login only (No .toml file, authenticate via CLI each time)",
-      "Skip for now (Configure manually later)"
-    ]
-  );
-  const tomlMap: SetupConfig["tomlApproach"][] = ["file", "cli", "skip"];
-  const tomlApproach = tomlMap[tomlChoice];
+  const before = await listProjectTree();
+  const snapshotDir = `${recorder.backupDir}-snapshot`;
+  for (const path of before.files) {
+    await mkdir(dirname(join(snapshotDir, path)), { recursive: true });
+    await copyFile(path, join(snapshotDir, path));
+  }
 
-  let storeUrl = "";
+  try {
+    await command();
+  } finally {
+    const after = await listProjectTree();
+    const existingFiles = new Set(before.files);
+    const existingDirs = new Set(before.dirs);
+
+    recorder.createdDirs.push(...after.dirs.filter(dir => !existingDirs.has(dir)));
+    for (const path of after.files) {
+      if (!existingFiles.has(path)) recorder.created.add(path);
+    }
 
-  if (tomlApproach === "file") {
-    storeUrl = await prompt("\n🏪 Enter your Shopify store URL (e.g., your-store.myshopify.com):");
-    if (storeUrl && !storeUrl.includes(".myshopify.com")) {
-      storeUrl = storeUrl.replace(/\.myshopify\.com$/, "") + ".myshopify.com";
+    const remaining = new Set(after.files);
+    for (const path of before.files) {
+      if (recorder.backups.has(path) || recorder.created.has(path)) continue;
+
+      const original = join(snapshotDir, path);
+      if (remaining.has(path) && (await readFile(original)).equals(await readFile(path))) continue;
+
+      const backupPath = join(recorder.backupDir, path);
+      await mkdir(dirname(backupPath), { recursive: true });
+      await rename(original, backupPath);
+      recorder.backups.set(path, backupPath);
     }
-    log(`✓ Store URL: ${storeUrl || "(will be configured later)"}`, colors.green);
-  } else if (tomlApproach === "cli") {
-    log("\n✓ You'll use Shopify CLI authentication", colors.green);
-    log("  Run 'shopify auth login' to authenticate before development", colors.yellow);
-  } else {
-    log("\n⏭️  Skipping store configuration. You can set this up later.", colors.yellow);
+    await rm(snapshotDir, { recursive: true, force: true });
   }
+}
 
-  // Question 7: Linting Setup
-  log("\n" + "─".repeat(60), colors.bright);
-  log("🔍 Code Quality Tools", colors.bright + colors.cyan);
-  log("─".repeat(60), colors.bright);
-  log("Linting helps catch errors and enforce consistent code style.\n", colors.yellow);
-
-  const lintChoice = await select(
-    "Which linting setup would you like?",
-    [
-      "ESLint + Prettier (Recommended - Full JavaScript/TypeScript linting + formatting)",
-      "Theme Check only (Shopify Liquid linting)",
-      "Skip for now (Configure manually later)"
-    ]
-  );
-  const lintMap: SetupConfig["lintingSetup"][] = ["eslint-prettier", "theme-check", "skip"];
-  const lintingSetup = lintMap[lintChoice];
-
-  if (lintingSetup === "eslint-prettier") {
-    log("\n✓ ESLint + Prettier will be configured", colors.green);
-    log("  Format on save and pre-commit checks included", colors.cyan);
-  } else if (lintingSetup === "theme-check") {
-    log("\n✓ Theme Check will be configured for Liquid linting", colors.green);
+async function resolveConflict(path: string, existing: string, content: string): Promise<ConflictResolution> {
+  if (recorder.onConflict) {
+    return recorder.onConflict;
   }
 
-  // Question 8: Git Hooks
-  log("\n" + "─".repeat(60), colors.bright);
-  log("🪝 Git Hooks", colors.bright + colors.cyan);
-  log("─".repeat(60), colors.bright);
-  log("Git hooks run checks before commits to catch issues early.\n", colors.yellow);
-
-  const hooksChoice = await select(
-    "Would you like to set up Git hooks (husky + lint-staged)?",
-    [
-      "Yes (Recommended - Run linting/formatting on staged files before commit)",
-      "No (Skip Git hooks setup)"
-    ]
-  );
-  const gitHooks = hooksChoice === 0;
+  log(`\n⚠️  ${path} already exists and can't be merged automatically:`, colors.yellow);
+  console.log(unifiedDiff(path, existing, content));
 
-  if (gitHooks) {
-    log("\n✓ Husky + lint-staged will be configured", colors.green);
-    log("  Pre-commit hooks will format and lint staged files", colors.cyan);
+  const choice = await select(`What should happen to ${path}?`, [
+    "Overwrite (the original is backed up first)",
+    "Skip (keep the existing file)",
+    `Write the generated version to ${path}.new`,
+  ]);
+  return conflictResolutions[choice];
+}
+
+async function writeProjectFile(path: string, content: string, options: WriteOptions = {}) {
+  if (recorder.skipped.has(path)) {
+    log(`  ⏭️  Kept existing ${path}`, colors.yellow);
+    return;
   }
 
-  // Question 9: Shopify Store Connection
-  log("\n" + "─".repeat(60), colors.bright);
-  log("🛍️  Shopify Store Connection", colors.bright + colors.cyan);
-  log("─".repeat(60), colors.bright);
-  log("Now let's connect to your Shopify store and select a base theme.\n", colors.yellow);
+  let existing: string | null = null;
+  try {
+    existing = await readProjectFile(path);
+  } catch {
+    // New file
+  }
 
-  log("Authenticating with Shopify CLI and fetching available themes...", colors.cyan);
-  const themes = await getShopifyThemes();
+  let target = path;
+  let next = content;
+  let conflict = false;
 
-  let shopifyEnvironment = "development";
-  let themeId: string | null = null;
+  if (existing !== null) {
+    const merged = options.merge ? options.merge(existing, content) : null;
 
-  if (themes.length > 0) {
-    log("\n✓ Successfully fetched themes from your store!\n", colors.green);
-    const themeOptions = themes.map(t => `${t.name} (${t.role}) - ID: ${t.id}`);
-    themeOptions.push("Skip - I'll configure this later");
+    if (merged !== null) {
+      next = merged;
+    } else if (existing !== content && !recorder.written.has(path)) {
+      conflict = true;
+    }
 
-    const themeChoice = await select(
-      "Which theme would you like to use as a base?",
-      themeOptions
-    );
+    if (next === existing) {
+      log(`  ✓ ${path} is already up to date`, colors.cyan);
+      return;
+    }
+  }
 
-    if (themeChoice < themes.length) {
-      themeId = themes[themeChoice].id;
-      log("\n✓ Selected theme: " + themes[themeChoice].name, colors.green);
+  if (recorder.dryRun) {
+    const existed = recorder.files.get(path)?.existed ?? existing !== null;
+    recorder.files.set(path, { content: next, existed });
+    recorder.written.add(path);
 
-      const envName = await prompt("\nWhat would you like to name this environment? (e.g., 'development', 'staging', 'production'):");
-      shopifyEnvironment = envName.trim() || "development";
-      log(`✓ Environment will be named: ${shopifyEnvironment}`, colors.green);
+    if (existing === null) {
+      const lines = next === "" ? 0 : next.replace(/\n$/, "").split("\n").length;
+      log(`  [dry-run] create ${path} (${lines} lines)`, colors.magenta);
     } else {
-      log("\n⏭️  Skipping theme selection. You can pull a theme later using 'shopify theme pull'", colors.yellow);
+      const action = !conflict
+        ? "merge into"
+        : recorder.onConflict
+          ? `conflict (--on-conflict ${recorder.onConflict})`
+          : "conflict (would ask to overwrite, skip or write .new)";
+      log(`  [dry-run] ${action} ${path}`, colors.magenta);
+      console.log(unifiedDiff(path, existing, next));
     }
-  } else {
-    log("\n⚠️  No themes found or Shopify CLI not authenticated.", colors.yellow);
-    log("Make sure you've run 'shopify auth login' before running this setup.", colors.yellow);
-    log("You can pull a theme later using 'shopify theme pull'\n", colors.yellow);
-  }
-
-  // Question 7: Project Context for CLAUDE.md
-  log("\n" + "─".repeat(60), colors.bright);
-  log("🤖 AI Assistant Configuration", colors.bright + colors.cyan);
-  log("─".repeat(60), colors.bright);
-  log("Help AI assistants (like Claude) understand your project better by providing context.\n", colors.yellow);
-
-  const projectType = await select(
-    "What type of Shopify store is this?",
-    [
-      "E-commerce (Standard online store)",
-      "Headless (API-driven, custom frontend)",
-      "B2B (Wholesale, bulk ordering)",
-      "Subscription (Recurring products)",
-      "Other/Custom"
-    ]
-  );
+    return;
+  }
 
-  const projectTypeMap = ["e-commerce", "headless", "b2b", "subscription", "custom"];
-  const selectedProjectType = projectTypeMap[projectType];
+  if (conflict) {
+    const resolution = await resolveConflict(path, existing as string, next);
+    if (resolution === "skip") {
+      recorder.skipped.add(path);
+      log(`  ⏭️  Kept existing ${path}`, colors.yellow);
+      return;
+    }
+    if (resolution === "new") {
+      target = `${path}.new`;
+      log(`  ↳ Generated version written to ${target}`, colors.cyan);
+    }
+  }
 
-  const projectDescription = await prompt("\n📝 Brief description of this project (optional, press Enter to skip):");
+  if (target === path && existing !== null) {
+    await backupFile(path);
+  }
 
-  return {
-    projectName,
-    stylingApproach,
-    jsApproach,
-    packageManager,
-    shopifyEnvironment,
-    themeId,
-    enableTunnel,
-    projectType: selectedProjectType,
-    projectDescription: projectDescription.trim() || "",
-    tomlApproach,
-    storeUrl: storeUrl.trim() || "",
-    lintingSetup,
-    gitHooks,
-  };
+  if (target !== path || existing === null) {
+    recorder.created.add(target);
+  }
+  await writeFile(target, next);
+  recorder.written.add(target);
 }
 
-async function createDirectoryStructure() {
-  header("Creating Directory Structure");
+interface PackageJson {
+  scripts?: Record<string, string>;
+  [field: string]: unknown;
+}
 
-  const dirs = [
-    "frontend/entrypoints",
-    "frontend/scripts/components",
-    "frontend/scripts/sections",
-    "frontend/scripts/hooks/core",
-    "frontend/styles",
-    "frontend/images",
-    "frontend/fonts",
-    ".github/workflows",
-  ];
+/**
+ * Adds scripts and top-level fields that are missing from an existing
+ * package.json. Anything the project already defines is left as is.
+ */
+function mergePackageJson(existing: string, generated: string): string | null {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(existing);
+  } catch {
+    return null;
+  }
+  if (typeof parsed !== "object" || parsed === null || Array.isArray(parsed)) {
+    return null;
+  }
 
-  for (const dir of dirs) {
-    try {
-      await mkdir(dir, { recursive: true });
-      log(`✓ Created: ${dir}`, colors.green);
-    } catch (error) {
-      log(`✗ Failed to create: ${dir}`, colors.red);
+  const current = parsed as PackageJson;
+  const additions: PackageJson = JSON.parse(generated);
+  let changed = false;
+
+  for (const [key, value] of Object.entries(additions)) {
+    if (key === "scripts") continue;
+    if (value !== undefined && current[key] === undefined) {
+      current[key] = value;
+      changed = true;
     }
   }
 
-  // Create .gitkeep files
-  const gitkeepDirs = [
-    "frontend/scripts/sections",
-    "frontend/styles",
-    "frontend/images",
-    "frontend/fonts",
-  ];
-
-  for (const dir of gitkeepDirs) {
-    await writeFile(join(dir, ".gitkeep"), "");
+  current.scripts = current.scripts || {};
+  for (const [name, command] of Object.entries(additions.scripts || {})) {
+    if (current.scripts[name] === undefined) {
+      current.scripts[name] = command;
+      changed = true;
+    } else if (current.scripts[name] !== command) {
+      log(`  ↳ Kept existing "${name}" script`, colors.cyan);
+    }
   }
-}
 
-async function installDependencies(config: SetupConfig) {
-  header("Installing Dependencies");
+  return changed ? JSON.stringify(current, null, 2) : existing;
+}
 
-  const baseDeps = [
-    config.enableTunnel ? "vite@6.0.8" : "vite", // Lock Vite to 6.0.8 for tunnel support
-    "vite-plugin-shopify",
-    "postcss",
-    "autoprefixer",
-    "npm-run-all",
-    "@shopify/theme-check-node",
-  ];
+/**
+ * Adds entries from a generated .gitignore/.shopifyignore that the existing
+ * file lacks. Missing entries go at the end of the matching "# Section" block
+ * when the existing file has one, otherwise into a new block at the end.
+ */
+function mergeIgnoreFile(existing: string, generated: string): string {
+  const lines = existing.replace(/\n$/, "").split("\n");
+  const present = new Set(lines.map(line => line.trim()));
+  const missing = new Map<string, string[]>();
+  let section = "";
+
+  for (const raw of generated.split("\n")) {
+    const line = raw.trim();
+    if (line.startsWith("#")) {
+      section = line;
+    } else if (line && !present.has(line)) {
+      present.add(line);
+      missing.set(section, [...(missing.get(section) || []), line]);
+    }
+  }
 
-  if (config.stylingApproach === "scss") {
-    baseDeps.push("sass");
-  } else if (config.stylingApproach === "tailwind") {
-    baseDeps.push("tailwindcss");
+  if (missing.size === 0) {
+    return existing;
   }
 
-  if (config.jsApproach === "typescript") {
-    baseDeps.push("typescript", "@types/node");
+  for (const [heading, entries] of missing) {
+    const headingIndex = heading ? lines.findIndex(line => line.trim() === heading) : -1;
+
+    if (headingIndex === -1) {
+      lines.push("", ...(heading ? [heading] : []), ...entries);
+      continue;
+    }
+
+    let end = headingIndex + 1;
+    while (end < lines.length && lines[end].trim() !== "") end++;
+    lines.splice(end, 0, ...entries);
   }
 
-  log(`Installing dependencies with ${config.packageManager}...`, colors.cyan);
-  if (config.enableTunnel) {
-    log("  ⚡ Installing Vite 6.0.8 (required for tunnel compatibility)", colors.yellow);
+  return lines.join("\n") + "\n";
+}
+
+function keepExisting(existing: string): string {
+  return existing;
+}
+
+/**
+ * Minimal unified diff (LCS based, 3 lines of context). Generated files are
+ * small enough that the quadratic table is not a concern.
+ */
+function unifiedDiff(path: string, before: string, after: string, context = 3): string {
+  const a = before.split("\n");
+  const b = after.split("\n");
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
   }
 
-  try {
-    if (config.packageManager === "bun") {
-      await $`bun add -d ${baseDeps}`;
-    } else if (config.packageManager === "npm") {
-      await $`npm install --save-dev ${baseDeps}`;
-    } else if (config.packageManager === "pnpm") {
-      await $`pnpm add -D ${baseDeps}`;
+  const ops: Array<{ type: " " | "-" | "+"; line: string; aIndex: number; bIndex: number }> = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      ops.push({ type: " ", line: a[i], aIndex: i++, bIndex: j++ });
+    } else if (i < a.length && (j >= b.length || lcs[i + 1][j] >= lcs[i][j + 1])) {
+      ops.push({ type: "-", line: a[i], aIndex: i++, bIndex: j });
     } else {
-      await $`yarn add -D ${baseDeps}`;
+      ops.push({ type: "+", line: b[j], aIndex: i, bIndex: j++ });
     }
-    log("✓ Dependencies installed successfully", colors.green);
-  } catch (error) {
-    log("✗ Error installing dependencies", colors.red);
-    console.error(error);
   }
+
+  const output = [`${colors.red}--- a/${path}`, `${colors.green}+++ b/${path}${colors.reset}`];
+  let index = 0;
+
+  while (index < ops.length) {
+    while (index < ops.length && ops[index].type === " ") index++;
+    if (index >= ops.length) break;
+
+    const start = Math.max(0, index - context);
+    let end = index;
+    // Extend the hunk while changes are within 2 * context lines of each other
+    while (end < ops.length) {
+      let next = end;
+      while (next < ops.length && ops[next].type === " ") next++;
+      if (next >= ops.length || next - end > context * 2) break;
+      while (next < ops.length && ops[next].type !== " ") next++;
+      end = next;
+    }
+    const stop = Math.min(ops.length, end + context);
+    const hunk = ops.slice(start, stop);
+    const aCount = hunk.filter(op => op.type !== "+").length;
+    const bCount = hunk.filter(op => op.type !== "-").length;
+
+    output.push(`${colors.cyan}@@ -${hunk[0].aIndex + 1},${aCount} +${hunk[0].bIndex + 1},${bCount} @@${colors.reset}`);
+    for (const op of hunk) {
+      const color = op.type === "+" ? colors.green : op.type === "-" ? colors.red : "";
+      output.push(`${color}${op.type}${op.line}${color ? colors.reset : ""}`);
+    }
+    index = stop;
+  }
+
+  return output.join("\n");
 }
 
-async function createPackageJson(config: SetupConfig) {
-  header("Creating package.json");
+function displayDryRunSummary() {
+  header("Dry Run Complete - Nothing Was Written");
 
-  const packageJson = {
-    name: `${config.projectName}-shopify`,
-    version: "1.0.0",
-    type: "module",
-    packageManager: config.packageManager === "bun" ? "bun@1.3.0" : undefined,
-    scripts: {
-      dev: 'run-p -sr "shopify:dev -- {@}" "vite:dev" --',
-      "dev:staging": 'run-p -sr "shopify:dev:staging -- {@}" "vite:dev" --',
-      "dev:production": 'run-p -sr "shopify:dev:production -- {@}" "vite:dev" --',
-      build: `${config.packageManager} vite:build`,
-      preview: "vite preview",
-      deploy: 'run-s "vite:build" "shopify:push -- {@}" --',
-      "deploy:staging": 'run-s "vite:build" "shopify:push:staging -- {@}" --',
-      "deploy:production": 'run-s "vite:build" "shopify:push:production -- {@}" --',
-      "shopify:dev": "shopify theme dev --environment development",
-      "shopify:dev:staging": "shopify theme dev --environment staging",
-      "shopify:dev:production": "shopify theme dev --environment production",
-      "shopify:push": "shopify theme push --environment development",
-      "shopify:push:staging": "shopify theme push --environment staging",
-      "shopify:push:production": "shopify theme push --environment production",
-      "vite:dev": "vite",
-      "vite:build": "vite build",
-      clean: "rm -rf dist assets/storefront.js assets/custom_styling.css",
-    },
-  };
+  const paths = [...new Set([...recorder.directories, ...recorder.files.keys()])].sort();
 
-  await writeFile("package.json", JSON.stringify(packageJson, null, 2));
-  log("✓ package.json created", colors.green);
-}
+  log("Planned file tree:\n", colors.bright);
+  const printed = new Set<string>();
+  for (const path of paths) {
+    const parts = path.split("/");
+    parts.forEach((part, depth) => {
+      const key = parts.slice(0, depth + 1).join("/");
+      if (printed.has(key)) return;
+      printed.add(key);
 
-async function createViteConfig(config: SetupConfig) {
-  header("Creating Vite Configuration");
+      const file = recorder.files.get(key);
+      const marker = !file ? "" : file.existed ? " (modified)" : " (new)";
+      const color = !file ? colors.bright : file.existed ? colors.yellow : colors.green;
+      log(`${"  ".repeat(depth + 1)}${part}${file ? "" : "/"}${marker}`, color);
+    });
+  }
 
-  const viteConfig = `import { fileURLToPath, URL } from 'node:url';
-import { defineConfig } from 'vite';
-import shopify from 'vite-plugin-shopify';
+  log(`\nCommands that would run (${recorder.commands.length}):\n`, colors.bright);
+  for (const command of recorder.commands) {
+    log(`  $ ${command}`, colors.cyan);
+  }
 
-export default defineConfig(() => ({
-  plugins: [
-    shopify({
-      themeRoot: './',
-      sourceCodeDir: 'frontend',
-      entrypointsDir: 'frontend/entrypoints',
-      additionalEntrypoints: [],${config.enableTunnel ? `
-      tunnel: true, // Enable Cloudflare tunnel for theme editor development` : ""}
-    }),
-  ],
-  resolve: {
-    alias: {
-      '~': fileURLToPath(new URL('./frontend', import.meta.url)),
-    },
-  },
-  build: {
-    emptyOutDir: false,
-    manifest: true,
-    rollupOptions: {
-      output: {
-        entryFileNames: '[name].js',
-        assetFileNames: '[name][extname]',
-        chunkFileNames: '[name].js',
+  log("\nRe-run without --dry-run to apply these changes.", colors.yellow);
+}
+
+interface SetupConfig {
+  projectName: string;
+  stylingApproach: "css" | "scss" | "postcss" | "tailwind";
+  jsApproach: "vanilla" | "typescript";
+  packageManager: "bun" | "npm" | "pnpm" | "yarn";
+  shopifyEnvironment: string;
+  themeId: string | null;
+  enableTunnel?: boolean;
+  projectType?: string;
+  projectDescription?: string;
+  tomlApproach: "file" | "cli" | "skip";
+  storeUrl?: string;
+  lintingSetup: "eslint-prettier" | "theme-check" | "skip";
+  gitHooks: boolean;
+  // Keys of templateBundleOptions, one frontend/templates/ entrypoint each
+  templateBundles: string[];
+  // Content-hashed filenames in assets/ instead of stable [name].js
+  hashedAssets: boolean;
+}
+
+// Allowed values for each choice in SetupConfig, in the order the questions list them
+const stylingApproaches: SetupConfig["stylingApproach"][] = ["css", "scss", "postcss", "tailwind"];
+const jsApproaches: SetupConfig["jsApproach"][] = ["vanilla", "typescript"];
+const packageManagers: SetupConfig["packageManager"][] = ["bun", "npm", "pnpm", "yarn"];
+const tomlApproaches: SetupConfig["tomlApproach"][] = ["file", "cli", "skip"];
+const lintingSetups: SetupConfig["lintingSetup"][] = ["eslint-prettier", "theme-check", "skip"];
+const projectTypes = ["e-commerce", "headless", "b2b", "subscription", "custom"];
+
+// Template bundles offered by setup and the template.name values each one is loaded on
+const templateBundleOptions: Record<string, string[]> = {
+  index: ["index"],
+  product: ["product"],
+  collection: ["collection", "list-collections"],
+  cart: ["cart"],
+  search: ["search"],
+  customer: ["account", "activate_account", "addresses", "login", "order", "register", "reset_password"],
+  blog: ["blog", "article"],
+  page: ["page"],
+};
+const templateBundles = Object.keys(templateBundleOptions);
+
+interface CliOptions {
+  preset: Partial<SetupConfig>;
+  yes: boolean;
+  dryRun: boolean;
+  onConflict?: ConflictResolution;
+  rollbackOnFailure: boolean;
+  resume: boolean;
+}
+
+const usage = `Usage: bun setup.ts [options]
+
+Any option that is not provided (here or in --config) is asked interactively.
+
+  -c, --config <file>     Read answers from a JSON file (keys match SetupConfig)
+      --name <name>       Project/store name
+      --styling <type>    ${stylingApproaches.join(" | ")}
+      --js <type>         ${jsApproaches.join(" | ")}
+      --pm <manager>      ${packageManagers.join(" | ")}
+      --tunnel            Enable Cloudflare tunnel (--no-tunnel to disable)
+      --toml <approach>   ${tomlApproaches.join(" | ")}
+      --store <url>       Shopify store URL (used with --toml file)
+      --lint <setup>      ${lintingSetups.join(" | ")}
+      --hooks             Set up husky + lint-staged (--no-hooks to disable)
+      --theme <id>        Theme ID to pull (--no-theme to skip the theme pull)
+      --env <name>        Shopify environment name
+      --type <type>       ${projectTypes.join(" | ")}
+      --description <txt> Short project description for CLAUDE.md
+      --templates <list>  Comma-separated template bundles to create (--no-templates for none):
+                          ${templateBundles.join(", ")}
+      --hashed-assets     Content-hashed filenames in assets/ (--no-hashed-assets for stable names)
+  -y, --yes               Skip the "Proceed with setup?" confirmation
+      --dry-run           Print planned files, diffs and commands without writing anything
+      --on-conflict <act> ${conflictResolutions.join(" | ")} - what to do with existing files that
+                          can't be merged (asked per file when omitted)
+      --rollback-on-failure
+                          Stop at the first failed step, remove files created in this
+                          run and restore the backed-up originals
+      --resume            Continue an unfinished setup with the answers saved in
+                          .shopify-setup-state.json, skipping completed steps
+  -h, --help              Show this help
+`;
+
+function normalizeStoreUrl(storeUrl: string): string {
+  if (storeUrl && !storeUrl.includes(".myshopify.com")) {
+    return storeUrl.replace(/\.myshopify\.com$/, "") + ".myshopify.com";
+  }
+  return storeUrl;
+}
+
+// Keywords and browser/Shopify globals that a project namespace must not shadow
+const reservedGlobals = new Set([
+  "break", "case", "catch", "class", "const", "continue", "debugger", "default", "delete", "do",
+  "else", "enum", "export", "extends", "false", "finally", "for", "function", "if", "import",
+  "in", "instanceof", "new", "null", "return", "super", "switch", "this", "throw", "true", "try",
+  "typeof", "var", "void", "while", "with", "yield", "let", "static", "await", "implements",
+  "interface", "package", "private", "protected", "public", "arguments", "eval", "undefined",
+  "window", "document", "location", "history", "navigator", "name", "self", "top", "parent",
+  "frames", "origin", "status", "Shopify", "theme",
+]);
+
+/**
+ * Turns a project name into the identifier used for the window.<namespace>
+ * global in the generated scripts. Separators and other characters that are
+ * not valid in an identifier are dropped ("acme-store" -> "acmestore",
+ * "my.boutique" -> "myboutique"); names starting with a digit or clashing
+ * with a keyword/browser global get a leading underscore. Returns an empty
+ * string when nothing usable is left.
+ */
+function toGlobalNamespace(projectName: string): string {
+  const namespace = projectName.trim().replace(/[^A-Za-z0-9_$]/g, "");
+
+  if (namespace === "") {
+    return "";
+  }
+  if (/^[0-9]/.test(namespace) || reservedGlobals.has(namespace)) {
+    return `_${namespace}`;
+  }
+  return namespace;
+}
+
+interface ProjectNames {
+  // package.json name is `${slug}-shopify`
+  slug: string;
+  // window.<identifier> global in the generated scripts
+  identifier: string;
+  // Human-readable name for CLAUDE.md, messages and fallbacks
+  displayName: string;
+}
+
+const packageSuffix = "-shopify";
+
+/**
+ * Checks a project name against the npm package-name rules (the name ends up
+ * in package.json as `${name}-shopify`). Returns the problems found, if any.
+ */
+function validateProjectName(projectName: string): string[] {
+  const problems: string[] = [];
+
+  if (projectName === "") {
+    return ["name is required"];
+  }
+  if (projectName.length + packageSuffix.length > 214) {
+    problems.push(`must be at most ${214 - packageSuffix.length} characters`);
+  }
+  if (projectName !== projectName.toLowerCase()) {
+    problems.push("must be lowercase");
+  }
+  if (/^[._]/.test(projectName)) {
+    problems.push("must not start with a dot or underscore");
+  }
+  if (/[~'!()*\s]/.test(projectName) || encodeURIComponent(projectName) !== projectName) {
+    problems.push("may only contain letters, digits, '-', '.' and '_'");
+  }
+  if (!/[a-z0-9]/i.test(projectName)) {
+    problems.push("must contain at least one letter or digit");
+  }
+  if (["node_modules", "favicon.ico"].includes(projectName)) {
+    problems.push("is a reserved npm name");
+  }
+
+  return problems;
+}
+
+/**
+ * Suggests a valid name for invalid input: "Acme Store!" -> "acme-store".
+ */
+function suggestProjectName(input: string): string {
+  return input
+    .toLowerCase()
+    .replace(/[^a-z0-9.-]+/g, "-")
+    .replace(/-{2,}/g, "-")
+    .replace(/^[-.]+|[-.]+$/g, "")
+    .slice(0, 214 - packageSuffix.length);
+}
+
+function projectNames(projectName: string): ProjectNames {
+  const displayName = projectName
+    .split(/[-._]+/)
+    .filter(Boolean)
+    .map(word => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(" ");
+
+  return {
+    slug: projectName,
+    identifier: toGlobalNamespace(projectName),
+    displayName,
+  };
+}
+
+function scriptExtension(config: SetupConfig): "ts" | "js" {
+  return config.jsApproach === "typescript" ? "ts" : "js";
+}
+
+/**
+ * Returns a helper for writing one script template for both JS and TS
+ * projects: t(": string") emits the annotation only for TypeScript, with an
+ * optional fallback for plain JavaScript.
+ */
+function typed(config: SetupConfig) {
+  return (typescript: string, javascript = "") => (config.jsApproach === "typescript" ? typescript : javascript);
+}
+
+function expectOneOf<T extends string>(field: string, value: unknown, allowed: readonly T[]): T {
+  if (typeof value !== "string" || !allowed.includes(value as T)) {
+    throw new Error(`Invalid ${field}: ${JSON.stringify(value)} (expected one of: ${allowed.join(", ")})`);
+  }
+  return value as T;
+}
+
+function expectType(field: string, value: unknown, type: "string" | "boolean") {
+  if (typeof value !== type) {
+    throw new Error(`Invalid ${field}: ${JSON.stringify(value)} (expected a ${type})`);
+  }
+}
+
+function expectListOf<T extends string>(field: string, value: unknown, allowed: readonly T[]): T[] {
+  if (!Array.isArray(value)) {
+    throw new Error(`Invalid ${field}: ${JSON.stringify(value)} (expected an array)`);
+  }
+  const list = value.map(item => expectOneOf(field, item, allowed));
+  return [...new Set(list)];
+}
+
+/**
+ * Checks a partial config (from a JSON file or CLI flags) against the types
+ * declared on SetupConfig. Unknown keys are rejected so typos don't silently
+ * fall back to an interactive question.
+ */
+function validatePreset(raw: Record<string, unknown>, source: string): Partial<SetupConfig> {
+  const preset: Partial<SetupConfig> = {};
+
+  try {
+    for (const [key, value] of Object.entries(raw)) {
+      if (value === undefined) continue;
+
+      switch (key) {
+        case "projectName": {
+          expectType(key, value, "string");
+          preset.projectName = (value as string).trim();
+          const problems = validateProjectName(preset.projectName);
+          if (problems.length > 0) {
+            const suggestion = suggestProjectName(preset.projectName);
+            throw new Error(
+              `Invalid projectName: ${JSON.stringify(value)} (${problems.join("; ")})` +
+              (suggestion ? `. Try "${suggestion}"` : "")
+            );
+          }
+          break;
+        }
+        case "stylingApproach":
+          preset.stylingApproach = expectOneOf(key, value, stylingApproaches);
+          break;
+        case "jsApproach":
+          preset.jsApproach = expectOneOf(key, value, jsApproaches);
+          break;
+        case "packageManager":
+          preset.packageManager = expectOneOf(key, value, packageManagers);
+          break;
+        case "tomlApproach":
+          preset.tomlApproach = expectOneOf(key, value, tomlApproaches);
+          break;
+        case "lintingSetup":
+          preset.lintingSetup = expectOneOf(key, value, lintingSetups);
+          break;
+        case "projectType":
+          preset.projectType = expectOneOf(key, value, projectTypes);
+          break;
+        case "templateBundles":
+          preset.templateBundles = expectListOf(key, value, templateBundles);
+          break;
+        case "enableTunnel":
+        case "gitHooks":
+        case "hashedAssets":
+          expectType(key, value, "boolean");
+          preset[key] = value as boolean;
+          break;
+        case "themeId":
+          if (value !== null) expectType(key, value, "string");
+          preset.themeId = value as string | null;
+          break;
+        case "shopifyEnvironment":
+        case "storeUrl":
+        case "projectDescription":
+          expectType(key, value, "string");
+          preset[key] = (value as string).trim();
+          break;
+        default:
+          throw new Error(`Unknown option "${key}"`);
       }
     }
-  },
-  server: {${config.enableTunnel ? `
-    allowedHosts: 'all', // Required for Cloudflare tunnel` : ""}
-    headers: {
-      "Cache-Control": "no-store, no-cache, must-revalidate, proxy-revalidate, max-age=0",
-      "Access-Control-Allow-Origin": "*",
-      "Access-Control-Allow-Methods": "GET, HEAD, PUT, POST, PATCH, DELETE",
-      "Access-Control-Allow-Headers": "Content-Type, Authorization",
-      "Access-Control-Allow-Credentials": "true"
+  } catch (error) {
+    throw new Error(`${source}: ${(error as Error).message}`);
+  }
+
+  if (preset.storeUrl) {
+    preset.storeUrl = normalizeStoreUrl(preset.storeUrl);
+  }
+
+  return preset;
+}
+
+// SetupConfig keys without a default, i.e. the answers askQuestions() always returns
+const requiredConfigKeys: (keyof SetupConfig)[] = [
+  "projectName",
+  "stylingApproach",
+  "jsApproach",
+  "packageManager",
+  "shopifyEnvironment",
+  "themeId",
+  "tomlApproach",
+  "lintingSetup",
+  "gitHooks",
+  "templateBundles",
+  "hashedAssets",
+];
+
+function isCompleteConfig(config: Partial<SetupConfig>): config is SetupConfig {
+  return requiredConfigKeys.every(key => config[key] !== undefined);
+}
+
+// "product, cart" -> ["product", "cart"]; undefined stays undefined so the question is still asked
+function splitList(value: string | undefined): string[] | undefined {
+  return value?.split(",").map(item => item.trim()).filter(Boolean);
+}
+
+async function parseCliOptions(argv: string[]): Promise<CliOptions> {
+  const { values } = parseArgs({
+    args: argv,
+    strict: true,
+    options: {
+      config: { type: "string", short: "c" },
+      name: { type: "string" },
+      styling: { type: "string" },
+      js: { type: "string" },
+      pm: { type: "string" },
+      tunnel: { type: "boolean" },
+      "no-tunnel": { type: "boolean" },
+      toml: { type: "string" },
+      store: { type: "string" },
+      lint: { type: "string" },
+      hooks: { type: "boolean" },
+      "no-hooks": { type: "boolean" },
+      theme: { type: "string" },
+      "no-theme": { type: "boolean" },
+      env: { type: "string" },
+      type: { type: "string" },
+      description: { type: "string" },
+      templates: { type: "string" },
+      "no-templates": { type: "boolean" },
+      "hashed-assets": { type: "boolean" },
+      "no-hashed-assets": { type: "boolean" },
+      yes: { type: "boolean", short: "y" },
+      "dry-run": { type: "boolean" },
+      "on-conflict": { type: "string" },
+      "rollback-on-failure": { type: "boolean" },
+      resume: { type: "boolean" },
+      help: { type: "boolean", short: "h" },
     },
-    cors: {
-      origin: ["*"],
-      methods: ["GET", "HEAD", "PUT", "POST, PATCH", "DELETE"],
-      credentials: true,
-      allowedHeaders: ["Content-Type", "Authorization"]
+  });
+
+  if (values.help) {
+    console.log(usage);
+    process.exit(0);
+  }
+
+  let filePreset: Partial<SetupConfig> = {};
+  if (values.config) {
+    let raw: unknown;
+    try {
+      raw = JSON.parse(await readFile(values.config, "utf-8"));
+    } catch (error) {
+      throw new Error(`Could not read config file ${values.config}: ${(error as Error).message}`);
     }
-  },
-  css: {
-    devSourcemap: true,
-    modules: {
-      localsConvention: 'camelCase'
-    },${config.stylingApproach === "scss" ? `
-    preprocessorOptions: {
-      scss: {
-        additionalData: '@use "sass:math"; @use "sass:map";',
-        api: 'modern-compiler',
-        quietDeps: true,
-        logger: {
-          warn: () => { }
+    if (typeof raw !== "object" || raw === null || Array.isArray(raw)) {
+      throw new Error(`${values.config}: expected a JSON object`);
+    }
+    filePreset = validatePreset(raw as Record<string, unknown>, values.config);
+  }
+
+  const flagPreset = validatePreset({
+    projectName: values.name,
+    stylingApproach: values.styling,
+    jsApproach: values.js,
+    packageManager: values.pm,
+    enableTunnel: values["no-tunnel"] ? false : values.tunnel,
+    tomlApproach: values.toml,
+    storeUrl: values.store,
+    lintingSetup: values.lint,
+    gitHooks: values["no-hooks"] ? false : values.hooks,
+    themeId: values["no-theme"] ? null : values.theme,
+    shopifyEnvironment: values.env,
+    projectType: values.type,
+    projectDescription: values.description,
+    templateBundles: values["no-templates"] ? [] : splitList(values.templates),
+    hashedAssets: values["no-hashed-assets"] ? false : values["hashed-assets"],
+  }, "command line");
+
+  // Flags take precedence over the config file
+  return {
+    preset: { ...filePreset, ...flagPreset },
+    yes: values.yes ?? false,
+    dryRun: values["dry-run"] ?? false,
+    onConflict: values["on-conflict"] === undefined
+      ? undefined
+      : expectOneOf("--on-conflict", values["on-conflict"], conflictResolutions),
+    rollbackOnFailure: values["rollback-on-failure"] ?? false,
+    resume: values.resume ?? false,
+  };
+}
+
+async function getShopifyThemes(): Promise<Array<{ id: string; name: string; role: string }>> {
+  try {
+    const result = await $`shopify theme list --json`.text();
+    const themes = JSON.parse(result);
+    return themes;
+  } catch (error) {
+    log("Error fetching Shopify themes. Make sure you're authenticated with Shopify CLI.", colors.red);
+    return [];
+  }
+}
+
+async function selectBundles(): Promise<string[]> {
+  log("Which template bundles would you like to create?", colors.yellow);
+  templateBundles.forEach((bundle, index) => {
+    log(`  ${index + 1}. ${bundle} (${templateBundleOptions[bundle].join(", ")})`, colors.cyan);
+  });
+
+  const answer = await prompt("Enter numbers or names separated by commas (press Enter for none):");
+  const chosen: string[] = [];
+
+  for (const item of splitList(answer) ?? []) {
+    const bundle = templateBundles[parseInt(item) - 1] ?? item.toLowerCase();
+    if (!templateBundles.includes(bundle)) {
+      log(`Unknown template bundle "${item}". Please try again.`, colors.red);
+      return selectBundles();
+    }
+    if (!chosen.includes(bundle)) chosen.push(bundle);
+  }
+
+  return chosen;
+}
+
+function logPreset(label: string, value: string) {
+  log(`✓ ${label}: ${value} (preset)`, colors.green);
+}
+
+async function askQuestions(preset: Partial<SetupConfig> = {}): Promise<SetupConfig> {
+  header("Shopify Theme Development Environment Setup");
+
+  log("Welcome! This script will help you set up a modern Shopify theme development environment.", colors.green);
+  log("This setup includes Vite for fast development, Bun for package management, and CI/CD workflows.\n", colors.green);
+
+  // Question 1: Project Name
+  let projectName = preset.projectName ?? "";
+
+  if (preset.projectName === undefined) {
+    log("Let's start with some basic information about your project.\n", colors.cyan);
+    projectName = await prompt("📦 What is your project/store name? (e.g., 'acme-store', 'my-boutique'):");
+
+    let problems = validateProjectName(projectName);
+    while (problems.length > 0) {
+      const suggestion = suggestProjectName(projectName);
+      log(`⚠️  "${projectName}" can't be used as a project name: ${problems.join("; ")}.`, colors.red);
+
+      const answer = suggestion
+        ? await prompt(`Enter a different name, or press Enter to use '${suggestion}':`)
+        : await prompt("Enter a different name (lowercase letters, digits and '-'):");
+      projectName = answer || suggestion;
+      problems = validateProjectName(projectName);
+    }
+
+    const names = projectNames(projectName);
+    log(`✓ Package: ${names.slug}${packageSuffix} · Global: window.${names.identifier} · Display name: ${names.displayName}`, colors.green);
+  } else {
+    logPreset("Project name", projectName);
+  }
+
+  // Question 2: Styling Approach
+  let stylingApproach = preset.stylingApproach;
+
+  if (stylingApproach === undefined) {
+    log("\n" + "─".repeat(60), colors.bright);
+    log("🎨 CSS Setup", colors.bright + colors.cyan);
+    log("─".repeat(60), colors.bright);
+    log("Choose your styling approach. We recommend plain CSS with CSS variables for most Shopify themes.", colors.yellow);
+    log("Note: This template enforces semantic class names (NO Tailwind-style utility classes).\n", colors.yellow);
+
+    const stylingChoice = await select(
+      "Which styling approach will you use?",
+      [
+        "Plain CSS (Recommended - simple, semantic, mobile-first)",
+        "SCSS/SASS (For variables, mixins, and nesting)",
+        "PostCSS with plugins (For advanced CSS processing)",
+        "Tailwind CSS (Utility-first - requires custom configuration)"
+      ]
+    );
+    stylingApproach = stylingApproaches[stylingChoice];
+  } else {
+    logPreset("Styling", stylingApproach);
+  }
+
+  if (stylingApproach === "tailwind") {
+    log("\n⚠️  Note: While Tailwind is supported, this template's guidelines emphasize semantic class names.", colors.yellow);
+    log("You'll need to adapt the CLAUDE.md guidelines if you choose to use utility classes.\n", colors.yellow);
+  }
+
+  // Question 3: JavaScript Approach
+  let jsApproach = preset.jsApproach;
+
+  if (jsApproach === undefined) {
+    log("\n" + "─".repeat(60), colors.bright);
+    log("⚙️  JavaScript Setup", colors.bright + colors.cyan);
+    log("─".repeat(60), colors.bright);
+    log("Choose between vanilla JavaScript or TypeScript. Vanilla JS is simpler for most Shopify themes.\n", colors.yellow);
+
+    const jsChoice = await select(
+      "Which JavaScript approach will you use?",
+      [
+        "Vanilla JavaScript (Recommended - simple, fast, perfect for Shopify)",
+        "TypeScript (For type safety, better IDE support, and larger projects)"
+      ]
+    );
+    jsApproach = jsApproaches[jsChoice];
+  } else {
+    logPreset("JavaScript", jsApproach);
+  }
+
+  // Question 4: Package Manager
+  let packageManager = preset.packageManager;
+
+  if (packageManager === undefined) {
+    log("\n" + "─".repeat(60), colors.bright);
+    log("📦 Package Manager", colors.bright + colors.cyan);
+    log("─".repeat(60), colors.bright);
+    log("We strongly recommend Bun - it's 3-10x faster than npm/yarn and has built-in TypeScript support.\n", colors.yellow);
+
+    const pmChoice = await select(
+      "Which package manager will you use?",
+      [
+        "Bun (Recommended - 3-10x faster, modern, built-in TypeScript)",
+        "npm (Standard Node.js package manager)",
+        "pnpm (Efficient disk usage with hard links)",
+        "yarn (Reliable alternative to npm)"
+      ]
+    );
+    packageManager = packageManagers[pmChoice];
+  } else {
+    logPreset("Package manager", packageManager);
+  }
+
+  // Question 5: Theme Editor Development Setup
+  let enableTunnel = preset.enableTunnel;
+
+  if (enableTunnel === undefined) {
+    log("\n" + "─".repeat(60), colors.bright);
+    log("🔧 Development Environment", colors.bright + colors.cyan);
+    log("─".repeat(60), colors.bright);
+    log("For Shopify theme editor development, we recommend using Cloudflare tunnel to avoid CORS issues.", colors.yellow);
+    log("This requires cloudflared to be installed (brew install cloudflared).\n", colors.yellow);
+
+    const tunnelChoice = await select(
+      "Do you want to enable Cloudflare tunnel for theme editor development?",
+      [
+        "Yes (Recommended - enables HTTPS tunnel for theme editor)",
+        "No (I'll configure HTTPS with mkcert or work without theme editor)"
+      ]
+    );
+    enableTunnel = tunnelChoice === 0;
+  } else {
+    logPreset("Cloudflare tunnel", enableTunnel ? "enabled" : "disabled");
+  }
+
+  if (enableTunnel) {
+    log("\n✓ Cloudflare tunnel will be enabled in vite.config.js", colors.green);
+    log("✓ Vite will be locked to version 6.0.8 (required for tunnel support)", colors.green);
+    log("Make sure to install cloudflared: brew install cloudflared\n", colors.yellow);
+  }
+
+  // Question 6: Shopify Theme Configuration (TOML)
+  let tomlApproach = preset.tomlApproach;
+
+  if (tomlApproach === undefined) {
+    log("\n" + "─".repeat(60), colors.bright);
+    log("📄 Shopify Theme Configuration", colors.bright + colors.cyan);
+    log("─".repeat(60), colors.bright);
+    log("The shopify.theme.toml file stores your store URL and theme IDs for different environments.", colors.yellow);
+    log("This file will be added to .gitignore at the end of setup to protect your credentials.\n", colors.yellow);
+
+    const tomlChoice = await select(
+      "How would you like to configure Shopify store access?",
+      [
+        "Create shopify.theme.toml file (Recommended - stores environment configs)",
+        "Use Shopify CLI login only (No .toml file, authenticate via CLI each time)",
+        "Skip for now (Configure manually later)"
+      ]
+    );
+    tomlApproach = tomlApproaches[tomlChoice];
+  } else {
+    logPreset("Store config", tomlApproach);
+  }
+
+  let storeUrl = preset.storeUrl ?? "";
+
+  if (tomlApproach === "file") {
+    if (preset.storeUrl === undefined) {
+      storeUrl = normalizeStoreUrl(await prompt("\n🏪 Enter your Shopify store URL (e.g., your-store.myshopify.com):"));
+    }
+    log(`✓ Store URL: ${storeUrl || "(will be configured later)"}`, colors.green);
+  } else if (tomlApproach === "cli") {
+    log("\n✓ You'll use Shopify CLI authentication", colors.green);
+    log("  Run 'shopify auth login' to authenticate before development", colors.yellow);
+  } else {
+    log("\n⏭️  Skipping store configuration. You can set this up later.", colors.yellow);
+  }
+
+  // Question 7: Linting Setup
+  let lintingSetup = preset.lintingSetup;
+
+  if (lintingSetup === undefined) {
+    log("\n" + "─".repeat(60), colors.bright);
+    log("🔍 Code Quality Tools", colors.bright + colors.cyan);
+    log("─".repeat(60), colors.bright);
+    log("Linting helps catch errors and enforce consistent code style.\n", colors.yellow);
+
+    const lintChoice = await select(
+      "Which linting setup would you like?",
+      [
+        "ESLint + Prettier (Recommended - Full JavaScript/TypeScript linting + formatting)",
+        "Theme Check only (Shopify Liquid linting)",
+        "Skip for now (Configure manually later)"
+      ]
+    );
+    lintingSetup = lintingSetups[lintChoice];
+  } else {
+    logPreset("Linting", lintingSetup);
+  }
+
+  if (lintingSetup === "eslint-prettier") {
+    log("\n✓ ESLint + Prettier will be configured", colors.green);
+    log("  Format on save and pre-commit checks included", colors.cyan);
+  } else if (lintingSetup === "theme-check") {
+    log("\n✓ Theme Check will be configured for Liquid linting", colors.green);
+  }
+
+  // Question 8: Git Hooks
+  let gitHooks = preset.gitHooks;
+
+  if (gitHooks === undefined) {
+    log("\n" + "─".repeat(60), colors.bright);
+    log("🪝 Git Hooks", colors.bright + colors.cyan);
+    log("─".repeat(60), colors.bright);
+    log("Git hooks run checks before commits to catch issues early.\n", colors.yellow);
+
+    const hooksChoice = await select(
+      "Would you like to set up Git hooks (husky + lint-staged)?",
+      [
+        "Yes (Recommended - Run linting/formatting on staged files before commit)",
+        "No (Skip Git hooks setup)"
+      ]
+    );
+    gitHooks = hooksChoice === 0;
+  } else {
+    logPreset("Git hooks", gitHooks ? "enabled" : "disabled");
+  }
+
+  if (gitHooks) {
+    log("\n✓ Husky + lint-staged will be configured", colors.green);
+    log("  Pre-commit hooks will format and lint staged files", colors.cyan);
+  }
+
+  // Question 9: Template Bundles
+  let selectedBundles = preset.templateBundles;
+
+  if (selectedBundles === undefined) {
+    log("\n" + "─".repeat(60), colors.bright);
+    log("🧩 Template Bundles", colors.bright + colors.cyan);
+    log("─".repeat(60), colors.bright);
+    log("Template bundles hold code that only one template needs (e.g. a product gallery), so other pages don't download it.", colors.yellow);
+    log("Each bundle gets its own entrypoint in frontend/templates/ and is loaded by snippets/template-bundles.liquid.\n", colors.yellow);
+
+    selectedBundles = await selectBundles();
+  } else {
+    logPreset("Template bundles", selectedBundles.join(", ") || "none");
+  }
+
+  // Question 10: Asset Filenames
+  let hashedAssets = preset.hashedAssets;
+
+  if (hashedAssets === undefined) {
+    log("\n" + "─".repeat(60), colors.bright);
+    log("🏷️  Asset Filenames", colors.bright + colors.cyan);
+    log("─".repeat(60), colors.bright);
+    log("Stable names (storefront.js) rely on Shopify's CDN cache busting. Hashed names (storefront-4f9a1c2e.js)", colors.yellow);
+    log("change whenever the content does; stale hashed files are removed from assets/ after each build.\n", colors.yellow);
+
+    const hashChoice = await select(
+      "Which asset filenames would you like?",
+      [
+        "Stable names (Recommended - simple, readable diffs in assets/)",
+        "Content-hashed names (Long-term caching, generated snippets/hashed-asset.liquid)"
+      ]
+    );
+    hashedAssets = hashChoice === 1;
+  } else {
+    logPreset("Hashed assets", hashedAssets ? "enabled" : "disabled");
+  }
+
+  // Question 11: Shopify Store Connection
+  let shopifyEnvironment = preset.shopifyEnvironment || "development";
+  let themeId: string | null = preset.themeId ?? null;
+
+  if (preset.themeId === undefined) {
+    log("\n" + "─".repeat(60), colors.bright);
+    log("🛍️  Shopify Store Connection", colors.bright + colors.cyan);
+    log("─".repeat(60), colors.bright);
+    log("Now let's connect to your Shopify store and select a base theme.\n", colors.yellow);
+
+    log("Authenticating with Shopify CLI and fetching available themes...", colors.cyan);
+    const themes = await getShopifyThemes();
+
+    if (themes.length > 0) {
+      log("\n✓ Successfully fetched themes from your store!\n", colors.green);
+      const themeOptions = themes.map(t => `${t.name} (${t.role}) - ID: ${t.id}`);
+      themeOptions.push("Skip - I'll configure this later");
+
+      const themeChoice = await select(
+        "Which theme would you like to use as a base?",
+        themeOptions
+      );
+
+      if (themeChoice < themes.length) {
+        themeId = themes[themeChoice].id;
+        log("\n✓ Selected theme: " + themes[themeChoice].name, colors.green);
+
+        if (preset.shopifyEnvironment === undefined) {
+          const envName = await prompt("\nWhat would you like to name this environment? (e.g., 'development', 'staging', 'production'):");
+          shopifyEnvironment = envName.trim() || "development";
         }
+        log(`✓ Environment will be named: ${shopifyEnvironment}`, colors.green);
+      } else {
+        log("\n⏭️  Skipping theme selection. You can pull a theme later using 'shopify theme pull'", colors.yellow);
       }
-    }` : ""}
+    } else {
+      log("\n⚠️  No themes found or Shopify CLI not authenticated.", colors.yellow);
+      log("Make sure you've run 'shopify auth login' before running this setup.", colors.yellow);
+      log("You can pull a theme later using 'shopify theme pull'\n", colors.yellow);
+    }
+  } else {
+    logPreset("Theme", themeId ?? "none");
+    logPreset("Environment", shopifyEnvironment);
   }
-}));
-`;
 
-  await writeFile("vite.config.js", viteConfig);
-  log("✓ vite.config.js created", colors.green);
+  // Question 12: Project Context for CLAUDE.md
+  let selectedProjectType = preset.projectType;
+  let projectDescription = preset.projectDescription;
+
+  if (selectedProjectType === undefined || projectDescription === undefined) {
+    log("\n" + "─".repeat(60), colors.bright);
+    log("🤖 AI Assistant Configuration", colors.bright + colors.cyan);
+    log("─".repeat(60), colors.bright);
+    log("Help AI assistants (like Claude) understand your project better by providing context.\n", colors.yellow);
+  }
+
+  if (selectedProjectType === undefined) {
+    const projectType = await select(
+      "What type of Shopify store is this?",
+      [
+        "E-commerce (Standard online store)",
+        "Headless (API-driven, custom frontend)",
+        "B2B (Wholesale, bulk ordering)",
+        "Subscription (Recurring products)",
+        "Other/Custom"
+      ]
+    );
+    selectedProjectType = projectTypes[projectType];
+  } else {
+    logPreset("Store type", selectedProjectType);
+  }
+
+  if (projectDescription === undefined) {
+    projectDescription = await prompt("\n📝 Brief description of this project (optional, press Enter to skip):");
+  }
+
+  return {
+    projectName: projectName.trim(),
+    stylingApproach,
+    jsApproach,
+    packageManager,
+    shopifyEnvironment,
+    themeId,
+    enableTunnel,
+    projectType: selectedProjectType,
+    projectDescription: projectDescription.trim() || "",
+    tomlApproach,
+    storeUrl: storeUrl.trim() || "",
+    lintingSetup,
+    gitHooks,
+    templateBundles: selectedBundles,
+    hashedAssets,
+  };
+}
+
+async function createDirectoryStructure(): Promise<StepResult | void> {
+  header("Creating Directory Structure");
+
+  const dirs = [
+    "frontend/entrypoints",
+    "frontend/scripts/components",
+    "frontend/scripts/sections",
+    "frontend/scripts/hooks/core",
+    "frontend/styles",
+    "frontend/images",
+    "frontend/fonts",
+    ".github/workflows",
+  ];
+
+  const failedDirs: string[] = [];
+
+  for (const dir of dirs) {
+    try {
+      await makeDirectory(dir);
+      log(`✓ Created: ${dir}`, colors.green);
+    } catch (error) {
+      log(`✗ Failed to create: ${dir}`, colors.red);
+      failedDirs.push(dir);
+    }
+  }
+
+  if (failedDirs.length > 0) {
+    return stepFailed(`could not create ${failedDirs.join(", ")}`);
+  }
+
+  // Create .gitkeep files
+  const gitkeepDirs = [
+    "frontend/scripts/sections",
+    "frontend/styles",
+    "frontend/images",
+    "frontend/fonts",
+  ];
+
+  for (const dir of gitkeepDirs) {
+    await writeProjectFile(join(dir, ".gitkeep"), "", { merge: keepExisting });
+  }
+}
+
+async function installDependencies(config: SetupConfig): Promise<StepResult | void> {
+  header("Installing Dependencies");
+
+  const baseDeps = [
+    config.enableTunnel ? "vite@6.0.8" : "vite", // Lock Vite to 6.0.8 for tunnel support
+    "vite-plugin-shopify",
+    "postcss",
+    "autoprefixer",
+    "npm-run-all",
+    "@shopify/theme-check-node",
+    // Image and font processing in vite/themeMedia.js
+    "sharp",
+    "subset-font",
+    // Unit tests; Vitest 4+ needs Vite 6.4 or later
+    config.enableTunnel ? "vitest@3" : "vitest",
+    "happy-dom",
+  ];
+
+  if (config.stylingApproach === "scss") {
+    baseDeps.push("sass");
+  } else if (config.stylingApproach === "tailwind") {
+    baseDeps.push("tailwindcss");
+  }
+
+  // TypeScript also type-checks JavaScript projects through jsconfig.json
+  baseDeps.push("typescript");
+  if (config.jsApproach === "typescript") {
+    baseDeps.push("@types/node");
+  }
+
+  log(`Installing dependencies with ${config.packageManager}...`, colors.cyan);
+  if (config.enableTunnel) {
+    log("  ⚡ Installing Vite 6.0.8 (required for tunnel compatibility)", colors.yellow);
+  }
+
+  try {
+    if (config.packageManager === "bun") {
+      await run`bun add -d ${baseDeps}`;
+    } else if (config.packageManager === "npm") {
+      await run`npm install --save-dev ${baseDeps}`;
+    } else if (config.packageManager === "pnpm") {
+      await run`pnpm add -D ${baseDeps}`;
+    } else {
+      await run`yarn add -D ${baseDeps}`;
+    }
+    log("✓ Dependencies installed successfully", colors.green);
+  } catch (error) {
+    log("✗ Error installing dependencies", colors.red);
+    console.error(error);
+    return stepFailed(error);
+  }
+}
+
+async function createPackageJson(config: SetupConfig) {
+  header("Creating package.json");
+
+  const packageJson = {
+    name: `${projectNames(config.projectName).slug}${packageSuffix}`,
+    version: "1.0.0",
+    type: "module",
+    packageManager: config.packageManager === "bun" ? "bun@1.3.0" : undefined,
+    scripts: {
+      dev: 'run-p -sr "shopify:dev -- {@}" "vite:dev" --',
+      "dev:staging": 'run-p -sr "shopify:dev:staging -- {@}" "vite:dev" --',
+      "dev:production": 'run-p -sr "shopify:dev:production -- {@}" "vite:dev" --',
+      build: `${config.packageManager} vite:build`,
+      preview: "vite preview",
+      deploy: 'run-s "vite:build:development" "shopify:push -- {@}" --',
+      "deploy:staging": 'run-s "vite:build:staging" "shopify:push:staging -- {@}" --',
+      "deploy:production": 'run-s "vite:build" "shopify:push:production -- {@}" --',
+      "shopify:dev": "shopify theme dev --environment development",
+      "shopify:dev:staging": "shopify theme dev --environment staging",
+      "shopify:dev:production": "shopify theme dev --environment production",
+      "shopify:push": "shopify theme push --environment development",
+      "shopify:push:staging": "shopify theme push --environment staging",
+      "shopify:push:production": "shopify theme push --environment production",
+      "vite:dev": "vite",
+      "vite:build": "vite build",
+      "vite:build:development": "vite build --mode development",
+      "vite:build:staging": "vite build --mode staging",
+      typecheck: config.jsApproach === "typescript" ? "tsc --noEmit" : "tsc --noEmit -p jsconfig.json",
+      clean: "node vite/cleanAssets.js",
+      "clean:report": "node vite/cleanAssets.js --report",
+      size: "node vite/sizeReport.js",
+      test: "vitest run",
+    },
+  };
+
+  await writeProjectFile("package.json", JSON.stringify(packageJson, null, 2), { merge: mergePackageJson });
+  log("✓ package.json created", colors.green);
+}
+
+async function createViteConfig(config: SetupConfig) {
+  header("Creating Vite Configuration");
+
+  const hash = config.hashedAssets ? "-[hash]" : "";
+
+  const viteConfig = `import { execSync } from 'node:child_process';
+import { readFileSync } from 'node:fs';
+import { fileURLToPath, URL } from 'node:url';
+import { defineConfig } from 'vite';
+import shopify from 'vite-plugin-shopify';
+import assetHistory from './vite/assetManifest.js';
+import sizeBudgets from './vite/sizeBudgets.js';
+import themeMedia from './vite/themeMedia.js';${config.hashedAssets ? `
+import hashedAssets from './vite/hashedAssets.js';` : ""}
+
+const { version } = JSON.parse(readFileSync(new URL('./package.json', import.meta.url), 'utf8'));
+
+function gitCommit() {
+  try {
+    return execSync('git rev-parse --short HEAD', { stdio: ['ignore', 'pipe', 'ignore'] }).toString().trim();
+  } catch {
+    return 'unknown';
+  }
+}
+
+export default defineConfig(({ mode }) => ({
+  // Build info for window.<namespace>.settings; the Vite mode names the environment
+  // (vite build --mode staging). THEME_DEV is true for every mode but production:
+  // import.meta.env.DEV can't tell, because vite build always sets NODE_ENV=production
+  define: {
+    'import.meta.env.THEME_VERSION': JSON.stringify(version),
+    'import.meta.env.THEME_ENVIRONMENT': JSON.stringify(mode),
+    'import.meta.env.THEME_DEV': JSON.stringify(mode !== 'production'),
+    'import.meta.env.THEME_COMMIT': JSON.stringify(gitCommit()),
+  },
+  plugins: [
+    shopify({
+      themeRoot: './',
+      sourceCodeDir: 'frontend',
+      entrypointsDir: 'frontend/entrypoints',
+      // Per-template bundles, loaded by snippets/template-bundles.liquid
+      additionalEntrypoints: [${config.templateBundles.length > 0 ? `'frontend/templates/*.${scriptExtension(config)}'` : ""}],${config.enableTunnel ? `
+      tunnel: true, // Enable Cloudflare tunnel for theme editor development` : ""}
+    }),
+    // Records what each build emitted so \`clean\` can safely remove outdated files
+    assetHistory(),
+    // Optimised images with WebP/AVIF variants, WOFF2 fonts and their @font-face rules
+    themeMedia(),
+    // Per-entrypoint limits in kB, including imported chunks and CSS. Exceeding one
+    // fails the build in CI and warns locally; the CI job summary shows the change.
+    sizeBudgets({
+      onExceed: process.env.CI ? 'error' : 'warn',
+      budgets: {
+        'storefront.${scriptExtension(config)}': { raw: 60, gzip: 20, brotli: 17 },
+        'custom_styling.${config.stylingApproach === "scss" ? "scss" : "css"}': { raw: 40, gzip: 10, brotli: 8 },${config.templateBundles.length > 0 ? `
+        '~/templates/*': { raw: 30, gzip: 10, brotli: 8 },` : ""}
+      },
+    }),${config.hashedAssets ? `
+    // Writes snippets/hashed-asset.liquid and prunes stale hashed files after each build
+    hashedAssets(),` : ""}
+  ],
+  resolve: {
+    alias: {
+      '~': fileURLToPath(new URL('./frontend', import.meta.url)),
+    },
+  },
+  build: {
+    emptyOutDir: false,
+    manifest: true,
+    rollupOptions: {
+      output: {
+        // Prefixes keep template bundles and shared chunks (e.g. the cart module)
+        // from overwriting theme assets with the same name, such as assets/cart.js
+        entryFileNames: (chunk) =>
+          chunk.facadeModuleId?.includes('/frontend/templates/') ? 'template-[name]${hash}.js' : '[name]${hash}.js',
+        assetFileNames: '[name]${hash}[extname]',
+        chunkFileNames: 'chunk-[name]${hash}.js',
+      }
+    }
+  },
+  server: {${config.enableTunnel ? `
+    allowedHosts: 'all', // Required for Cloudflare tunnel` : ""}
+    headers: {
+      "Cache-Control": "no-store, no-cache, must-revalidate, proxy-revalidate, max-age=0",
+      "Access-Control-Allow-Origin": "*",
+      "Access-Control-Allow-Methods": "GET, HEAD, PUT, POST, PATCH, DELETE",
+      "Access-Control-Allow-Headers": "Content-Type, Authorization",
+      "Access-Control-Allow-Credentials": "true"
+    },
+    cors: {
+      origin: ["*"],
+      methods: ["GET", "HEAD", "PUT", "POST, PATCH", "DELETE"],
+      credentials: true,
+      allowedHeaders: ["Content-Type", "Authorization"]
+    }
+  },
+  css: {
+    devSourcemap: true,
+    modules: {
+      localsConvention: 'camelCase'
+    },${config.stylingApproach === "scss" ? `
+    preprocessorOptions: {
+      scss: {
+        additionalData: '@use "sass:math"; @use "sass:map";',
+        api: 'modern-compiler',
+        quietDeps: true,
+        logger: {
+          warn: () => { }
+        }
+      }
+    }` : ""}
+  }
+}));
+`;
+
+  await writeProjectFile("vite.config.js", viteConfig);
+  log("✓ vite.config.js created", colors.green);
+
+  // Unit tests only need the '~' alias; the theme plugins stay out of test runs
+  const vitestConfig = `import { fileURLToPath, URL } from 'node:url';
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  resolve: {
+    alias: {
+      '~': fileURLToPath(new URL('./frontend', import.meta.url)),
+    },
+  },
+  test: {
+    environment: 'happy-dom',
+    include: ['frontend/**/*.test.{js,ts}'],
+  },
+});
+`;
+
+  await writeProjectFile("vitest.config.js", vitestConfig);
+  log("✓ vitest.config.js created", colors.green);
+
+  const assetManifest = `/**
+ * Asset Manifest
+ * Helpers for the Vite manifest in assets/.vite/, plus a plugin that keeps a
+ * record of every file earlier builds emitted. vite/cleanAssets.js compares that
+ * record with the current manifest, so it only ever deletes files Vite wrote.
+ */
+
+import { mkdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { relative, resolve } from 'node:path';
+
+export function readManifest(outDir) {
+  try {
+    return JSON.parse(readFileSync(resolve(outDir, '.vite/manifest.json'), 'utf8'));
+  } catch {
+    return {};
+  }
+}
+
+// Every file a manifest points to: entries, chunks, their CSS and imported assets
+export function manifestFiles(manifest) {
+  return new Set(
+    Object.values(manifest).flatMap((chunk) => [chunk.file, ...(chunk.css ?? []), ...(chunk.assets ?? [])])
+  );
+}
+
+// The name vite-tag accepts for a manifest key: "storefront.js" for entrypoints,
+// "~/templates/product.js" for anything else under the source directory
+export function logicalName(source, sourceCodeDir = 'frontend', entrypointsDir = 'frontend/entrypoints') {
+  if (source.startsWith(\`\${entrypointsDir}/\`)) return relative(entrypointsDir, source);
+  if (source.startsWith(\`\${sourceCodeDir}/\`)) return \`~/\${relative(sourceCodeDir, source)}\`;
+  return null;
+}
+
+// Files listed by the manifests of earlier builds, until the next clean
+export function readPreviousFiles(outDir) {
+  try {
+    return new Set(JSON.parse(readFileSync(resolve(outDir, '.vite/previous-files.json'), 'utf8')));
+  } catch {
+    return new Set();
+  }
+}
+
+export function writePreviousFiles(outDir, files) {
+  mkdirSync(resolve(outDir, '.vite'), { recursive: true });
+  writeFileSync(resolve(outDir, '.vite/previous-files.json'), JSON.stringify([...files].sort(), null, 2));
+}
+
+export default function assetHistory() {
+  let outDir = '';
+
+  return {
+    name: 'asset-history',
+    apply: 'build',
+
+    configResolved(config) {
+      outDir = resolve(config.root, config.build.outDir);
+    },
+
+    // Runs before Vite overwrites the manifest with the new build's
+    buildStart() {
+      const files = readPreviousFiles(outDir);
+      for (const file of manifestFiles(readManifest(outDir))) {
+        files.add(file);
+      }
+      writePreviousFiles(outDir, files);
+    },
+  };
+}
+`;
+
+  const cleanAssets = `/**
+ * Clean Assets
+ * Deletes files from assets/ that an earlier Vite build emitted and the current
+ * manifest no longer references. Theme and merchant files never appear in a
+ * Vite manifest, so they are never touched.
+ *
+ *   node vite/cleanAssets.js           delete stale files
+ *   node vite/cleanAssets.js --report  only list them
+ */
+
+import { existsSync, rmSync, statSync } from 'node:fs';
+import { resolve, sep } from 'node:path';
+import { manifestFiles, readManifest, readPreviousFiles, writePreviousFiles } from './assetManifest.js';
+
+const outDir = resolve('assets');
+const reportOnly = process.argv.includes('--report');
+
+const current = manifestFiles(readManifest(outDir));
+if (current.size === 0) {
+  console.error('No Vite manifest in assets/.vite/ - run a build first so current files are known.');
+  process.exit(1);
+}
+
+const stale = [...readPreviousFiles(outDir)]
+  .filter((file) => !current.has(file))
+  .filter((file) => resolve(outDir, file).startsWith(outDir + sep) && existsSync(resolve(outDir, file)));
+
+if (stale.length === 0) {
+  console.log('assets/ has no stale build output.');
+} else {
+  let bytes = 0;
+  for (const file of stale) {
+    const path = resolve(outDir, file);
+    bytes += statSync(path).size;
+    console.log(\`\${reportOnly ? 'stale' : 'removed'}  assets/\${file}\`);
+    if (!reportOnly) rmSync(path);
+  }
+  console.log(\`\${stale.length} file(s), \${(bytes / 1024).toFixed(1)} kB\${reportOnly ? ' (report only, nothing deleted)' : ''}\`);
+}
+
+// Everything left in the record is either deleted now or still current
+if (!reportOnly) writePreviousFiles(outDir, []);
+`;
+
+  const themeMedia = `/**
+ * Theme Media
+ * Vite plugin for frontend/images and frontend/fonts:
+ * - Raster images are optimised and emitted to assets/ together with WebP and
+ *   AVIF variants, named after their path with an img- prefix so they can't
+ *   overwrite theme assets (frontend/images/icons/cart.png -> img-icons-cart.png,
+ *   .webp and .avif). build.rollupOptions.output.assetFileNames applies, so
+ *   hashed builds hash them too.
+ * - Fonts are subset and converted to WOFF2 in frontend/fonts/generated/, and
+ *   frontend/styles/fonts.generated.css gets one @font-face rule per font. The
+ *   styling entrypoint imports that file, so Vite emits the fonts like any CSS asset.
+ * Converted files are cached in node_modules/.cache/theme-media by content.
+ */
+
+import { createHash } from 'node:crypto';
+import { existsSync, mkdirSync, readFileSync, readdirSync, writeFileSync } from 'node:fs';
+import { basename, dirname, extname, join, resolve } from 'node:path';
+import sharp from 'sharp';
+import subsetFont from 'subset-font';
+
+const imagesDir = 'frontend/images';
+const fontsDir = 'frontend/fonts';
+const generatedFontsDir = 'frontend/fonts/generated';
+const fontsStylesheet = 'frontend/styles/fonts.generated.css';
+const cacheDir = 'node_modules/.cache/theme-media';
+
+const imageExtensions = ['.png', '.jpg', '.jpeg'];
+const fontExtensions = ['.ttf', '.otf', '.woff', '.woff2'];
+
+// Basic Latin, Latin-1 Supplement and common typographic punctuation
+const latinText =
+  String.fromCharCode(...Array.from({ length: 0x7f - 0x20 }, (_, i) => 0x20 + i)) +
+  String.fromCharCode(...Array.from({ length: 0x100 - 0xa0 }, (_, i) => 0xa0 + i)) +
+  '‘’‚“”„–—…•€™';
+
+// Weight keywords in font filenames such as Inter-SemiBoldItalic.ttf
+const fontWeights = {
+  thin: 100,
+  extralight: 200,
+  light: 300,
+  regular: 400,
+  medium: 500,
+  semibold: 600,
+  bold: 700,
+  extrabold: 800,
+  black: 900,
+};
+
+function listFiles(dir, extensions) {
+  if (!existsSync(dir)) return [];
+  return readdirSync(dir, { recursive: true })
+    .map((file) => file.replaceAll('\\\\', '/'))
+    .filter((file) => extensions.includes(extname(file).toLowerCase()) && !file.startsWith('generated/'));
+}
+
+// Writes only when the content changed, so the dev server doesn't reload for nothing
+function writeIfChanged(file, content) {
+  if (existsSync(file) && readFileSync(file).equals(Buffer.from(content))) return;
+  mkdirSync(dirname(file), { recursive: true });
+  writeFileSync(file, content);
+}
+
+// Conversions are keyed by the source content, output format and encoder settings
+async function cached(source, format, settings, convert) {
+  const key = createHash('sha1').update(source).update(format).update(settings).digest('hex');
+  const file = resolve(cacheDir, \`\${key}.\${format}\`);
+  if (existsSync(file)) return readFileSync(file);
+
+  const output = Buffer.from(await convert());
+  mkdirSync(dirname(file), { recursive: true });
+  writeFileSync(file, output);
+  return output;
+}
+
+function fontFace(name) {
+  // "PlayfairDisplay-BoldItalic" -> family "Playfair Display", weight 700, italic
+  const [family, variant = 'Regular'] = name.split('-');
+  const weight = fontWeights[variant.toLowerCase().replace('italic', '')] ?? 400;
+
+  return \`@font-face {
+  font-family: '\${family.replace(/([a-z])([A-Z])/g, '$1 $2')}';
+  src: url('../fonts/generated/\${name}.woff2') format('woff2');
+  font-weight: \${weight};
+  font-style: \${/italic/i.test(variant) ? 'italic' : 'normal'};
+  font-display: swap;
+}\`;
+}
+
+export default function themeMedia({ quality = 80, avifQuality = 50, fontText = latinText } = {}) {
+  let command = 'build';
+
+  const encoders = {
+    jpg: (image) => image.jpeg({ quality, mozjpeg: true }),
+    png: (image) => image.png({ compressionLevel: 9, effort: 10 }),
+    webp: (image) => image.webp({ quality }),
+    avif: (image) => image.avif({ quality: avifQuality }),
+  };
+
+  async function buildFonts() {
+    const rules = [];
+
+    for (const file of listFiles(fontsDir, fontExtensions)) {
+      const name = basename(file, extname(file));
+      const source = readFileSync(join(fontsDir, file));
+      const woff2 = await cached(source, 'woff2', fontText, () =>
+        subsetFont(source, fontText, { targetFormat: 'woff2' })
+      );
+      writeIfChanged(join(generatedFontsDir, \`\${name}.woff2\`), woff2);
+      rules.push(fontFace(name));
+    }
+
+    writeIfChanged(
+      fontsStylesheet,
+      \`/* Generated by vite/themeMedia.js from \${fontsDir}/ - do not edit */\\n\${rules.join('\\n\\n')}\\n\`
+    );
+  }
+
+  return {
+    name: 'theme-media',
+
+    configResolved(config) {
+      command = config.command;
+    },
+
+    async buildStart() {
+      await buildFonts();
+      if (command !== 'build') return;
+
+      for (const file of listFiles(imagesDir, imageExtensions)) {
+        const ext = extname(file);
+        const name = file.slice(0, -ext.length).replaceAll('/', '-');
+        const source = readFileSync(join(imagesDir, file));
+        const ownFormat = ext.toLowerCase() === '.png' ? 'png' : 'jpg';
+
+        for (const format of [ownFormat, 'webp', 'avif']) {
+          const output = await cached(source, format, \`\${quality}/\${avifQuality}\`, () =>
+            encoders[format](sharp(source)).toBuffer()
+          );
+          const variant = format === ownFormat ? file : \`\${file.slice(0, -ext.length)}.\${format}\`;
+          // Without a fileName, assetFileNames picks the output name. name and
+          // originalFileName put the files in the Vite manifest, which
+          // vite/cleanAssets.js and the hashed-asset snippet read
+          this.emitFile({
+            type: 'asset',
+            name: format === ownFormat ? \`img-\${name}\${ext}\` : \`img-\${name}.\${format}\`,
+            originalFileName: \`\${imagesDir}/\${variant}\`,
+            source: output,
+          });
+        }
+      }
+    },
+  };
+}
+`;
+
+  await makeDirectory("vite");
+  await writeProjectFile("vite/assetManifest.js", assetManifest);
+  await writeProjectFile("vite/cleanAssets.js", cleanAssets);
+  log("✓ vite/assetManifest.js and vite/cleanAssets.js created", colors.green);
+  await writeProjectFile("vite/themeMedia.js", themeMedia);
+  log("✓ vite/themeMedia.js created", colors.green);
+
+  const sizeBudgetsPlugin = `/**
+ * Size Budgets
+ * Vite plugin that measures every JS and CSS file a build emits (raw, gzip and
+ * brotli), prints a size table and checks each entrypoint against its budget.
+ * An entrypoint's size includes the chunks and CSS it imports, i.e. everything
+ * a page that renders its vite-tag downloads. The numbers are also written to
+ * assets/.vite/sizes.json, which vite/sizeReport.js turns into the CI summary.
+ */
+
+import { readFileSync, writeFileSync } from 'node:fs';
+import { resolve } from 'node:path';
+import { brotliCompressSync, constants, gzipSync } from 'node:zlib';
+import { logicalName, readManifest } from './assetManifest.js';
+
+const metrics = ['raw', 'gzip', 'brotli'];
+
+function measure(content) {
+  return {
+    raw: content.length,
+    gzip: gzipSync(content, { level: 9 }).length,
+    brotli: brotliCompressSync(content, { params: { [constants.BROTLI_PARAM_QUALITY]: 11 } }).length,
+  };
+}
+
+export function formatSize(bytes) {
+  return \`\${(bytes / 1024).toFixed(2)} kB\`;
+}
+
+// Budget keys may use * as a wildcard: "~/templates/*" covers every template bundle
+function findBudget(budgets, name) {
+  return Object.entries(budgets).find(([pattern]) => {
+    const source = pattern.split('*').map((part) => part.replace(/[.+?^\${}()|[\\]\\\\]/g, '\\\\$&')).join('.*');
+    return new RegExp(\`^\${source}$\`).test(name);
+  })?.[1];
+}
+
+// An entry's own file and CSS plus everything it imports statically
+function entryFiles(manifest, key, files = new Set()) {
+  const chunk = manifest[key];
+  if (!chunk || files.has(chunk.file)) return files;
+
+  files.add(chunk.file);
+  for (const css of chunk.css ?? []) files.add(css);
+  for (const imported of chunk.imports ?? []) entryFiles(manifest, imported, files);
+  return files;
+}
+
+function table(rows) {
+  const widths = rows[0].map((_, column) => Math.max(...rows.map((row) => row[column].length)));
+  return rows
+    .map((row) => row.map((cell, column) => (column === 0 ? cell.padEnd(widths[column]) : cell.padStart(widths[column]))).join('  '))
+    .join('\\n');
+}
+
+export default function sizeBudgets({
+  budgets = {},
+  onExceed = 'error',
+  sourceCodeDir = 'frontend',
+  entrypointsDir = 'frontend/entrypoints',
+} = {}) {
+  let outDir = '';
+  let logger;
+
+  return {
+    name: 'size-budgets',
+    apply: 'build',
+
+    configResolved(config) {
+      outDir = resolve(config.root, config.build.outDir);
+      logger = config.logger;
+    },
+
+    writeBundle() {
+      const manifest = readManifest(outDir);
+
+      const files = {};
+      for (const chunk of Object.values(manifest)) {
+        for (const file of [chunk.file, ...(chunk.css ?? [])]) {
+          if (/\\.(js|css)$/.test(file) && !files[file]) {
+            files[file] = measure(readFileSync(resolve(outDir, file)));
+          }
+        }
+      }
+
+      const entries = {};
+      for (const [key, chunk] of Object.entries(manifest)) {
+        if (!chunk.isEntry) continue;
+
+        const size = { raw: 0, gzip: 0, brotli: 0 };
+        for (const file of entryFiles(manifest, key)) {
+          for (const metric of metrics) size[metric] += files[file]?.[metric] ?? 0;
+        }
+        entries[logicalName(key, sourceCodeDir, entrypointsDir) ?? key] = size;
+      }
+
+      writeFileSync(resolve(outDir, '.vite/sizes.json'), JSON.stringify({ files, entries }, null, 2));
+
+      const exceeded = [];
+      const entryRows = Object.entries(entries).map(([name, size]) => {
+        const budget = findBudget(budgets, name);
+        const over = metrics.filter((metric) => budget?.[metric] !== undefined && size[metric] > budget[metric] * 1024);
+        for (const metric of over) {
+          exceeded.push(\`\${name}: \${metric} \${formatSize(size[metric])} exceeds the \${budget[metric]} kB budget\`);
+        }
+        const status = !budget ? '-' : over.length > 0 ? \`over (\${over.join(', ')})\` : 'ok';
+        return [name, ...metrics.map((metric) => formatSize(size[metric])), status];
+      });
+
+      logger.info(
+        \`\\n\${table([['File', 'Raw', 'Gzip', 'Brotli'], ...Object.entries(files).map(([file, size]) => [file, ...metrics.map((metric) => formatSize(size[metric]))])])}\`
+      );
+      logger.info(\`\\n\${table([['Entrypoint (with imports)', 'Raw', 'Gzip', 'Brotli', 'Budget'], ...entryRows])}\\n\`);
+
+      if (exceeded.length === 0) return;
+
+      const message = \`Size budget exceeded:\\n  \${exceeded.join('\\n  ')}\`;
+      if (onExceed === 'error') {
+        this.error(message);
+      } else {
+        logger.warn(message);
+      }
+    },
+  };
+}
+`;
+
+  const sizeReport = `/**
+ * Size Report
+ * Prints the entrypoint and file sizes from a build's sizes.json as Markdown,
+ * with the change against a baseline report when one is given. CI appends the
+ * output to the job summary, comparing against a build of the base branch.
+ *
+ *   node vite/sizeReport.js [current.json] [baseline.json]
+ */
+
+import { existsSync, readFileSync } from 'node:fs';
+import { formatSize } from './sizeBudgets.js';
+
+const [currentFile = 'assets/.vite/sizes.json', baselineFile] = process.argv.slice(2);
+const metrics = ['raw', 'gzip', 'brotli'];
+
+function readReport(file) {
+  return file && existsSync(file) ? JSON.parse(readFileSync(file, 'utf8')) : null;
+}
+
+function cell(size, previous) {
+  if (previous === undefined) return formatSize(size);
+  const diff = size - previous;
+  if (diff === 0) return \`\${formatSize(size)} (±0)\`;
+  const percent = previous > 0 ? \`, \${diff > 0 ? '+' : ''}\${((diff / previous) * 100).toFixed(1)}%\` : '';
+  return \`\${formatSize(size)} (\${diff > 0 ? '+' : '-'}\${formatSize(Math.abs(diff))}\${percent})\`;
+}
+
+function rows(current, baseline) {
+  const names = [...new Set([...Object.keys(current), ...Object.keys(baseline ?? {})])].sort();
+  return names.map((name) => {
+    const size = current[name];
+    const previous = baseline?.[name];
+    if (!size) return \`| \\\`\${name}\\\` | removed | | |\`;
+    const label = baseline && !previous ? \`\\\`\${name}\\\` (new)\` : \`\\\`\${name}\\\`\`;
+    return \`| \${label} | \${metrics.map((metric) => cell(size[metric], previous?.[metric])).join(' | ')} |\`;
+  });
+}
+
+const current = readReport(currentFile);
+if (!current) {
+  console.log(\`No size report at \${currentFile}; run a build first.\`);
+  process.exit(0);
+}
+const baseline = readReport(baselineFile);
+
+console.log(\`### Bundle size\${baseline ? ' (change against the base branch)' : ''}
+
+| Entrypoint (with imports) | Raw | Gzip | Brotli |
+| --- | ---: | ---: | ---: |
+\${rows(current.entries, baseline?.entries).join('\\n')}
+
+<details><summary>All files</summary>
+
+| File | Raw | Gzip | Brotli |
+| --- | ---: | ---: | ---: |
+\${rows(current.files, baseline?.files).join('\\n')}
+
+</details>\`);
+`;
+
+  await writeProjectFile("vite/sizeBudgets.js", sizeBudgetsPlugin);
+  await writeProjectFile("vite/sizeReport.js", sizeReport);
+  log("✓ vite/sizeBudgets.js and vite/sizeReport.js created", colors.green);
+
+  if (config.hashedAssets) {
+    const hashedAssetsPlugin = `/**
+ * Hashed Assets
+ * Vite plugin for content-hashed builds. After each build it regenerates
+ * snippets/hashed-asset.liquid from the Vite manifest and deletes the hashed
+ * files the previous build emitted that the new manifest no longer references.
+ * vite-tag.liquid keeps working as is: vite-plugin-shopify reads the same manifest.
+ */
+
+import { rmSync, writeFileSync } from 'node:fs';
+import { resolve } from 'node:path';
+import { logicalName, manifestFiles, readManifest } from './assetManifest.js';
+
+// Vite's [hash] placeholder: 8 URL-safe base64 characters before the extension
+const hashedFile = /-[\\w-]{8}\\.\\w+$/;
+
+export default function hashedAssets({
+  themeRoot = './',
+  sourceCodeDir = 'frontend',
+  entrypointsDir = 'frontend/entrypoints',
+  snippetFile = 'hashed-asset.liquid',
+} = {}) {
+  let outDir = '';
+  let logger;
+  let previousFiles = new Set();
+
+  return {
+    name: 'hashed-assets',
+    apply: 'build',
+
+    configResolved(config) {
+      outDir = resolve(config.root, config.build.outDir);
+      logger = config.logger;
+    },
+
+    buildStart() {
+      previousFiles = manifestFiles(readManifest(outDir));
+    },
+
+    writeBundle() {
+      const manifest = readManifest(outDir);
+      const currentFiles = manifestFiles(manifest);
+
+      const cases = Object.entries(manifest)
+        .map(([source, chunk]) => [logicalName(source, sourceCodeDir, entrypointsDir), chunk.file])
+        .filter(([name]) => name !== null)
+        .map(([name, file]) => \`  {%- when '\${name}' -%}{{ '\${file}' | asset_url }}\`);
+
+      const snippet = \`{%- comment -%}
+  Auto-generated by vite/hashedAssets.js on every build. Do not edit.
+  Prints the asset URL of the hashed file built from an entry or source file:
+  {% render 'hashed-asset', name: 'storefront.js' %}
+{%- endcomment -%}
+{%- case name -%}
+\${cases.join('\\n')}
+{%- endcase -%}
+\`;
+      writeFileSync(resolve(themeRoot, 'snippets', snippetFile), snippet);
+
+      const stale = [...previousFiles].filter((file) => !currentFiles.has(file) && hashedFile.test(file));
+      for (const file of stale) {
+        rmSync(resolve(outDir, file), { force: true });
+      }
+      if (stale.length > 0) {
+        logger.info(\`hashed-assets: removed \${stale.length} stale file(s) from assets/\`);
+      }
+    },
+  };
+}
+`;
+
+    await writeProjectFile("vite/hashedAssets.js", hashedAssetsPlugin);
+    log("✓ vite/hashedAssets.js created", colors.green);
+  }
+
+  // Lock Vite to 6.0.8 if tunnel is enabled
+  if (config.enableTunnel) {
+    log("✓ Vite version will be locked to 6.0.8 for tunnel compatibility", colors.green);
+  }
+}
+
+async function createPostCSSConfig(config: SetupConfig) {
+  header("Creating PostCSS Configuration");
+
+  let postcssConfig = `export default {
+  plugins: {
+    autoprefixer: {},
+  },
+}
+`;
+
+  if (config.stylingApproach === "tailwind") {
+    postcssConfig = `export default {
+  plugins: {
+    tailwindcss: {},
+    autoprefixer: {},
+  },
+}
+`;
+  }
+
+  await writeProjectFile("postcss.config.js", postcssConfig);
+  log("✓ postcss.config.js created", colors.green);
+}
+
+async function createGitIgnore() {
+  header("Creating .gitignore");
+
+  const gitignore = `# Node.js dependencies
+node_modules/
+npm-debug.log*
+yarn-debug.log*
+yarn-error.log*
+pnpm-debug.log*
+lerna-debug.log*
+
+# Environment variables
+.env
+.env.local
+.env.*.local
+.env.development.local
+.env.test.local
+.env.production.local
+
+# Vite
+dist/
+dist-ssr/
+*.local
+.vite/
+
+# Generated by vite/themeMedia.js on every build
+frontend/fonts/generated/
+frontend/styles/fonts.generated.css
+
+# Editor directories and files
+.vscode/*
+!.vscode/extensions.json
+!.vscode/settings.json
+.idea/
+.DS_Store
+*.suo
+*.ntvs*
+*.njsproj
+*.sln
+*.sw?
+
+# OS files
+Thumbs.db
+.DS_Store
+*~
+.Spotlight-V100
+.Trashes
+
+# Shopify theme files
+config/settings_data.json
+
+# Build artifacts
+*.log
+*.tsbuildinfo
+
+# Originals backed up by setup.ts before overwriting, and its resume state
+.setup-backups/
+.shopify-setup-state.json
+
+# Lock files (keep only one)
+package-lock.json
+yarn.lock
+pnpm-lock.yaml
+`;
+
+  await writeProjectFile(".gitignore", gitignore, { merge: mergeIgnoreFile });
+  log("✓ .gitignore created", colors.green);
+}
+
+async function createShopifyIgnore() {
+  header("Creating .shopifyignore");
+
+  const shopifyignore = `# Shopify Ignore - Files to exclude from theme uploads
+
+# Node modules
+node_modules/
+
+# Source files (Vite will build these)
+frontend/
+
+# Config files
+vite.config.js
+vitest.config.js
+postcss.config.js
+tailwind.config.js
+package.json
+bun.lockb
+package-lock.json
+yarn.lock
+pnpm-lock.yaml
+
+# Build configs
+.vite/
+vite/
+tsconfig.json
+jsconfig.json
+.eslintrc*
+.prettierrc*
+
+# Git files
+.git/
+.gitignore
+.gitattributes
+
+# CI/CD
+.github/
+
+# Documentation
+README.md
+CLAUDE.md
+project_setup.md
+*.md
+
+# Setup script
+setup.ts
+.setup-backups/
+.shopify-setup-state.json
+
+# Environment files
+.env*
+
+# Editor directories
+.vscode/
+.idea/
+*.swp
+*.swo
+
+# OS files
+.DS_Store
+Thumbs.db
+`;
+
+  await writeProjectFile(".shopifyignore", shopifyignore, { merge: mergeIgnoreFile });
+  log("✓ .shopifyignore created", colors.green);
+}
+
+async function createGitHubWorkflow(config: SetupConfig) {
+  header("Creating GitHub Actions Workflow");
+
+  const workflow = `name: Build Vite Assets
+
+on:
+  push:
+    branches: [main, develop]
+  pull_request:
+    branches: [main, develop]
+
+jobs:
+  build:
+    runs-on: ubuntu-latest
+
+    steps:
+      - name: Checkout code
+        uses: actions/checkout@v4
+
+      - name: Setup ${config.packageManager === "bun" ? "Bun" : "Node.js"}
+        uses: ${config.packageManager === "bun" ? "oven-sh/setup-bun@v1" : "actions/setup-node@v4"}${config.packageManager === "bun" ? `
+        with:
+          bun-version: latest` : ""}
+
+      - name: Install dependencies
+        run: ${config.packageManager} install
+
+      - name: Run tests
+        run: ${config.packageManager} run test
+
+      - name: Build Vite assets
+        run: ${config.packageManager} run build
+
+      # Builds the base branch in a separate worktree so the summary can show the size change
+      - name: Build base branch for size comparison
+        if: always() && github.event_name == 'pull_request'
+        continue-on-error: true
+        run: |
+          git fetch --depth=1 origin \${{ github.base_ref }}
+          git worktree add --detach ../base FETCH_HEAD
+          cd ../base
+          ${config.packageManager} install
+          ${config.packageManager} run build || true
+
+      - name: Bundle size summary
+        if: always()
+        run: node vite/sizeReport.js assets/.vite/sizes.json ../base/assets/.vite/sizes.json >> "$GITHUB_STEP_SUMMARY"
+
+      - name: Check for uncommitted changes in assets
+        run: |
+          git diff --exit-code assets/ || \\
+          (echo "Error: Built assets are out of sync. Run '${config.packageManager} run build' locally and commit the changes." && exit 1)
+
+      - name: Upload assets artifact
+        if: success()
+        uses: actions/upload-artifact@v4
+        with:
+          name: built-assets
+          path: assets/
+          retention-days: 7
+`;
+
+  await makeDirectory(".github/workflows");
+  await writeProjectFile(".github/workflows/build.yml", workflow);
+  log("✓ GitHub Actions workflow created", colors.green);
+}
+
+async function createEntrypoints(config: SetupConfig) {
+  header("Creating Entry Point Files");
+
+  const namespace = projectNames(config.projectName).identifier;
+  const ext = scriptExtension(config);
+  const t = typed(config);
+
+  // Create storefront.js / storefront.ts
+  const storefrontJs = `/**
+ * Storefront JavaScript Entrypoint
+ */
+
+import 'vite/modulepreload-polyfill';
+import {
+  consoleMessage,
+  formatMoney,
+  initGlobalEvents,
+  handleUrlParams,
+  registerUrlParam,
+} from '~/scripts/utils';
+import { dumpLogs } from '~/scripts/logger';
+import { reportWebVitals } from '~/scripts/webVitals';
+// Imported for its ?cart_open handler
+import '~/scripts/cart';
+import { registerSectionLifecycles } from '~/scripts/hooks/core/sectionRegistry';
+import { defineComponent } from '~/scripts/components/baseComponent';
+import { DisclosureToggle } from '~/scripts/components/disclosureToggle';
+${t("import type { ThemeNamespace } from '~/scripts/types';\n")}
+// Initialize global object
+window.${namespace} = window.${namespace} || ${t("({} as ThemeNamespace)", "/** @type {import('~/scripts/types').ThemeNamespace} */ ({})")};
+
+// Build info comes from vite.config.js
+window.${namespace}.settings = {
+  devMode: import.meta.env.THEME_DEV,
+  environment: import.meta.env.THEME_ENVIRONMENT,
+  commit: import.meta.env.THEME_COMMIT,
+  // URL that receives Core Web Vitals reports via navigator.sendBeacon
+  vitalsEndpoint: '',
+};
+
+window.${namespace}.theme = {
+  shopName: window.Shopify?.shop || '${projectNames(config.projectName).displayName}',
+  currency: window.Shopify?.currency?.active || 'USD',
+  template: window.theme?.template || '',
+  // Empty when the theme doesn't print one; formatMoney then formats the active currency
+  moneyFormat: window.theme?.moneyFormat || '',
+};
+
+// Snapshot from Liquid; ~/scripts/cart keeps it in sync after every cart request
+window.${namespace}.cart = {
+  count: window.Shopify?.cart?.item_count || 0,
+  total: window.Shopify?.cart?.total_price || 0,
+};
+
+window.${namespace}.events = window.${namespace}.events || new EventTarget();
+
+window.${namespace}.utils = {
+  consoleMessage,
+  dumpLogs,
+  formatMoney,
+  handleUrlParams,
+  registerUrlParam,
+};
+
+window.${namespace}.version = import.meta.env.THEME_VERSION;
+
+consoleMessage('Store object initialized', 'info');
+
+// Buffered observers also pick up entries recorded before this runs
+reportWebVitals();
+
+// Define custom elements once window.${namespace}.events exists; elements already in
+// the page are upgraded (and connected) right away
+defineComponent('disclosure-toggle', DisclosureToggle);
+
+const initializeApp = () => {
+  try {
+    consoleMessage('[InitializeApp] Starting application initialization', 'info');
+
+    initGlobalEvents();
+    consoleMessage('[InitializeApp] Global events initialized', 'info');
+
+    registerSectionLifecycles();
+    consoleMessage('[InitializeApp] Section lifecycles registered', 'info');
+
+    handleUrlParams();
+
+    consoleMessage('[InitializeApp] Application initialization complete', 'info', {
+      version: window.${namespace}.version,
+      environment: window.${namespace}.settings.environment,
+      commit: window.${namespace}.settings.commit,
+      devMode: window.${namespace}.settings.devMode,
+      cartCount: window.${namespace}.cart.count,
+    });
+  } catch (error) {
+    consoleMessage('[InitializeApp] Error during application initialization', 'error', error);
+  }
+};
+
+window.addEventListener('DOMContentLoaded', initializeApp);
+
+export default window.${namespace};
+`;
+
+  await writeProjectFile(`frontend/entrypoints/storefront.${ext}`, storefrontJs);
+  log(`✓ storefront.${ext} created`, colors.green);
+
+  // Create custom_styling.css or .scss
+  const fileExtension = config.stylingApproach === "scss" ? "scss" : "css";
+  const fileName = `frontend/entrypoints/custom_styling.${fileExtension}`;
+
+  let customStyles = "";
+
+  if (config.stylingApproach === "scss") {
+    // SCSS with tokens
+    customStyles = `/**
+ * Custom Styling Entrypoint (SCSS)
+ */
+
+// @font-face rules for frontend/fonts, generated by vite/themeMedia.js
+@use '../styles/fonts.generated';
+
+// Design Tokens
+$colors: (
+  'primary': rgb(var(--color-button)),
+  'secondary': rgb(var(--color-accent)),
+  'text-primary': #1a1a1a,
+  'text-secondary': #666,
+  'surface': #ffffff,
+  'border': #e5e5e5,
+);
+
+$spacing: (
+  'xs': 0.25rem,
+  'sm': 0.5rem,
+  'base': 1rem,
+  'lg': 2rem,
+  'xl': 4rem,
+);
+
+$breakpoints: (
+  'sm': 640px,
+  'md': 768px,
+  'lg': 1024px,
+  'xl': 1280px,
+  '2xl': 1536px,
+);
+
+$transitions: (
+  'fast': 150ms ease,
+  'base': 250ms ease,
+  'slow': 400ms ease,
+);
+
+// Centralized Media Query Mixins
+@mixin respond-to($breakpoint) {
+  @if map-has-key($breakpoints, $breakpoint) {
+    @media (min-width: map-get($breakpoints, $breakpoint)) {
+      @content;
+    }
+  } @else {
+    @warn "Breakpoint #{$breakpoint} not found in $breakpoints map.";
+  }
+}
+
+// Helper functions
+@function color($key) {
+  @return map-get($colors, $key);
+}
+
+@function spacing($key) {
+  @return map-get($spacing, $key);
+}
+
+@function transition($key) {
+  @return map-get($transitions, $key);
+}
+
+// CSS Custom Properties for runtime theming
+:root {
+  --color-primary: #{color('primary')};
+  --color-secondary: #{color('secondary')};
+  --spacing-base: #{spacing('base')};
+  --spacing-small: #{spacing('sm')};
+  --spacing-large: #{spacing('lg')};
+  --transition-base: #{transition('base')};
+  --border-radius: 4px;
+}
+
+// Utility Classes
+.visually-hidden {
+  position: absolute !important;
+  overflow: hidden;
+  width: 1px;
+  height: 1px;
+  margin: -1px;
+  padding: 0;
+  border: 0;
+  clip: rect(0 0 0 0);
+  word-wrap: normal !important;
+}
+
+// Import component styles
+// @import '../styles/product-card';
+// @import '../styles/cart-drawer';
+`;
+  } else {
+    // Plain CSS with centralized media queries via custom properties
+    customStyles = `/**
+ * Custom Styling Entrypoint
+ */
+
+/* @font-face rules for frontend/fonts, generated by vite/themeMedia.js */
+@import '../styles/fonts.generated.css';
+
+/* Design Tokens - CSS Custom Properties */
+:root {
+  /* Colors */
+  --color-primary: rgb(var(--color-button));
+  --color-secondary: rgb(var(--color-accent));
+  --color-text-primary: #1a1a1a;
+  --color-text-secondary: #666;
+  --color-surface: #ffffff;
+  --color-border: #e5e5e5;
+
+  /* Spacing */
+  --spacing-xs: 0.25rem;
+  --spacing-sm: 0.5rem;
+  --spacing-base: 1rem;
+  --spacing-lg: 2rem;
+  --spacing-xl: 4rem;
+
+  /* Transitions */
+  --transition-fast: 150ms ease;
+  --transition-base: 250ms ease;
+  --transition-slow: 400ms ease;
+
+  /* Borders */
+  --border-radius: 4px;
+  --border-width: 1px;
+
+  /* Breakpoints (for use with min-width media queries) */
+  --breakpoint-sm: 640px;
+  --breakpoint-md: 768px;
+  --breakpoint-lg: 1024px;
+  --breakpoint-xl: 1280px;
+  --breakpoint-2xl: 1536px;
+}
+
+/* Utility Classes */
+.visually-hidden {
+  position: absolute !important;
+  overflow: hidden;
+  width: 1px;
+  height: 1px;
+  margin: -1px;
+  padding: 0;
+  border: 0;
+  clip: rect(0 0 0 0);
+  word-wrap: normal !important;
+}
+
+/*
+  Centralized Media Query Guide
+  ==============================
+  Always use mobile-first approach with min-width:
+
+  Mobile:   Base styles (no media query)
+  Tablet:   @media (min-width: 768px)  { }
+  Desktop:  @media (min-width: 1024px) { }
+  Wide:     @media (min-width: 1280px) { }
+
+  Example:
+  .my-component {
+    padding: var(--spacing-sm);        // Mobile
+
+    @media (min-width: 768px) {
+      padding: var(--spacing-base);    // Tablet+
+    }
+
+    @media (min-width: 1024px) {
+      padding: var(--spacing-lg);      // Desktop+
+    }
+  }
+*/
+
+/* Import component styles */
+/* @import './styles/product-card.css'; */
+/* @import './styles/cart-drawer.css'; */
+`;
+  }
+
+  await writeProjectFile(fileName, customStyles);
+  log(`✓ custom_styling.${fileExtension} created`, colors.green);
+
+  if (config.stylingApproach === "scss") {
+    log("  ✓ SCSS tokens and mixins configured", colors.green);
+  } else {
+    log("  ✓ Centralized media query guide added", colors.green);
+  }
+}
+
+async function createShopifyThemeToml(config: SetupConfig) {
+  if (config.tomlApproach === "skip" || config.tomlApproach === "cli") {
+    // Create only the example file for reference
+    header("Creating example.shopify.theme.toml");
+
+    const exampleToml = `# Example Shopify Theme Configuration
+# Copy this file to shopify.theme.toml and update with your store details
+
+[environments.development]
+store = "your-store.myshopify.com"
+theme = "your-theme-id"
+ignore = [".shopifyignore"]
+
+# Additional environment examples:
+# [environments.staging]
+# store = "your-store-staging.myshopify.com"
+# theme = "staging-theme-id"
+
+# [environments.production]
+# store = "your-store.myshopify.com"
+# theme = "live-theme-id"
+`;
+
+    await writeProjectFile("example.shopify.theme.toml", exampleToml);
+    log("✓ example.shopify.theme.toml created for reference", colors.green);
+
+    if (config.tomlApproach === "cli") {
+      log("  Using CLI authentication - run 'shopify auth login' before development", colors.yellow);
+    } else {
+      log("  Copy this to shopify.theme.toml when ready to configure", colors.yellow);
+    }
+    return;
+  }
+
+  // Create actual shopify.theme.toml file
+  header("Creating shopify.theme.toml");
+
+  const storeUrl = config.storeUrl || "your-store.myshopify.com";
+  const themeId = config.themeId || "your-theme-id";
+
+  const themeToml = `# Shopify Theme Configuration
+# This file contains your store credentials - it will be added to .gitignore
+
+[environments.${config.shopifyEnvironment}]
+store = "${storeUrl}"
+theme = "${themeId}"
+ignore = [".shopifyignore"]
+
+# Additional environment examples (uncomment and configure as needed):
+# [environments.staging]
+# store = "${storeUrl}"
+# theme = "staging-theme-id"
+# ignore = [".shopifyignore"]
+
+# [environments.production]
+# store = "${storeUrl}"
+# theme = "live-theme-id"
+# ignore = [".shopifyignore"]
+`;
+
+  await writeProjectFile("shopify.theme.toml", themeToml);
+  log("✓ shopify.theme.toml created", colors.green);
+  log(`  Store: ${storeUrl}`, colors.cyan);
+  log(`  Theme: ${themeId}`, colors.cyan);
+  log(`  Environment: ${config.shopifyEnvironment}`, colors.cyan);
+}
+
+async function setupLinting(config: SetupConfig): Promise<StepResult | void> {
+  if (config.lintingSetup === "skip") {
+    log("\nSkipping linting setup", colors.yellow);
+    return stepSkipped("linting not selected");
+  }
+
+  header("Setting Up Linting");
+
+  if (config.lintingSetup === "eslint-prettier") {
+    // Install ESLint and Prettier dependencies
+    const deps = [
+      "eslint",
+      "prettier",
+      "eslint-config-prettier",
+      "eslint-plugin-prettier",
+      "@eslint/js",
+    ];
+
+    if (config.jsApproach === "typescript") {
+      deps.push("@typescript-eslint/eslint-plugin", "@typescript-eslint/parser");
+    }
+
+    log("Installing ESLint and Prettier...", colors.cyan);
+
+    try {
+      if (config.packageManager === "bun") {
+        await run`bun add -d ${deps}`;
+      } else if (config.packageManager === "npm") {
+        await run`npm install --save-dev ${deps}`;
+      } else if (config.packageManager === "pnpm") {
+        await run`pnpm add -D ${deps}`;
+      } else {
+        await run`yarn add -D ${deps}`;
+      }
+      log("✓ Linting dependencies installed", colors.green);
+    } catch (error) {
+      log("✗ Error installing linting dependencies", colors.red);
+      console.error(error);
+      return stepFailed(error);
+    }
+
+    // Create ESLint config
+    const eslintConfig = config.jsApproach === "typescript"
+      ? `import js from "@eslint/js";
+import tseslint from "@typescript-eslint/eslint-plugin";
+import tsparser from "@typescript-eslint/parser";
+import prettier from "eslint-plugin-prettier";
+
+export default [
+  js.configs.recommended,
+  {
+    files: ["frontend/**/*.{js,ts}"],
+    languageOptions: {
+      parser: tsparser,
+      ecmaVersion: 2022,
+      sourceType: "module",
+    },
+    plugins: {
+      "@typescript-eslint": tseslint,
+      prettier,
+    },
+    rules: {
+      "prettier/prettier": "error",
+      "no-unused-vars": "off",
+      "@typescript-eslint/no-unused-vars": ["error", { argsIgnorePattern: "^_" }],
+      "no-console": ["warn", { allow: ["warn", "error"] }],
+    },
+  },
+  {
+    ignores: ["assets/**", "node_modules/**", "*.config.js"],
+  },
+];
+`
+      : `import js from "@eslint/js";
+import prettier from "eslint-plugin-prettier";
+
+export default [
+  js.configs.recommended,
+  {
+    files: ["frontend/**/*.js"],
+    languageOptions: {
+      ecmaVersion: 2022,
+      sourceType: "module",
+    },
+    plugins: {
+      prettier,
+    },
+    rules: {
+      "prettier/prettier": "error",
+      "no-unused-vars": ["error", { argsIgnorePattern: "^_" }],
+      "no-console": ["warn", { allow: ["warn", "error"] }],
+    },
+  },
+  {
+    ignores: ["assets/**", "node_modules/**", "*.config.js"],
+  },
+];
+`;
+
+    await writeProjectFile("eslint.config.js", eslintConfig);
+    log("✓ eslint.config.js created", colors.green);
+
+    // Create Prettier config
+    const prettierConfig = `{
+  "semi": true,
+  "singleQuote": true,
+  "tabWidth": 2,
+  "trailingComma": "es5",
+  "printWidth": 100,
+  "bracketSpacing": true,
+  "arrowParens": "always"
+}
+`;
+    await writeProjectFile(".prettierrc", prettierConfig);
+    log("✓ .prettierrc created", colors.green);
+
+    // Create Prettier ignore
+    const prettierIgnore = `# Prettier ignore
+assets/
+node_modules/
+*.liquid
+*.json
+*.md
+bun.lockb
+`;
+    await writeProjectFile(".prettierignore", prettierIgnore);
+    log("✓ .prettierignore created", colors.green);
+
+  } else if (config.lintingSetup === "theme-check") {
+    log("Theme Check is already included via @shopify/theme-check-node", colors.green);
+
+    // Create theme check config
+    const themeCheckConfig = `# Theme Check Configuration
+# https://shopify.dev/docs/themes/tools/theme-check
+
+root: .
+extends: :theme-app-extension
+
+# Ignore patterns
+ignore:
+  - node_modules/**
+  - frontend/**
+
+# Custom rules
+MatchingTranslations:
+  enabled: true
+
+RemoteAsset:
+  enabled: true
+  severity: suggestion
+`;
+    await writeProjectFile(".theme-check.yml", themeCheckConfig);
+    log("✓ .theme-check.yml created", colors.green);
+  }
+}
+
+async function setupGitHooks(config: SetupConfig): Promise<StepResult | void> {
+  if (!config.gitHooks) {
+    log("\nSkipping Git hooks setup", colors.yellow);
+    return stepSkipped("Git hooks not selected");
+  }
+
+  header("Setting Up Git Hooks");
+
+  // Install husky and lint-staged
+  const deps = ["husky", "lint-staged"];
+
+  log("Installing husky and lint-staged...", colors.cyan);
+
+  try {
+    if (config.packageManager === "bun") {
+      await run`bun add -d ${deps}`;
+    } else if (config.packageManager === "npm") {
+      await run`npm install --save-dev ${deps}`;
+    } else if (config.packageManager === "pnpm") {
+      await run`pnpm add -D ${deps}`;
+    } else {
+      await run`yarn add -D ${deps}`;
+    }
+    log("✓ Git hooks dependencies installed", colors.green);
+  } catch (error) {
+    log("✗ Error installing Git hooks dependencies", colors.red);
+    console.error(error);
+    return stepFailed(error);
+  }
+
+  // Initialize husky
+  try {
+    await run`npx husky init`;
+    log("✓ Husky initialized", colors.green);
+  } catch (error) {
+    log("⚠️ Husky init skipped (may need git init first)", colors.yellow);
+  }
+
+  // Create pre-commit hook
+  const preCommitHook = config.lintingSetup === "eslint-prettier"
+    ? `#!/usr/bin/env sh
+. "$(dirname -- "$0")/_/husky.sh"
+
+npx lint-staged
+`
+    : `#!/usr/bin/env sh
+. "$(dirname -- "$0")/_/husky.sh"
+
+# Run theme check on liquid files
+npx shopify theme check --fail-level error
+`;
+
+  try {
+    await makeDirectory(".husky");
+    await writeProjectFile(".husky/pre-commit", preCommitHook);
+    await run`chmod +x .husky/pre-commit`;
+    log("✓ Pre-commit hook created", colors.green);
+  } catch (error) {
+    log("⚠️ Pre-commit hook creation skipped", colors.yellow);
+  }
+
+  // Create lint-staged config
+  if (config.lintingSetup === "eslint-prettier") {
+    const lintStagedConfig = `{
+  "frontend/**/*.{js,ts}": [
+    "eslint --fix",
+    "prettier --write"
+  ],
+  "frontend/**/*.{css,scss}": [
+    "prettier --write"
+  ]
+}
+`;
+    await writeProjectFile(".lintstagedrc", lintStagedConfig);
+    log("✓ .lintstagedrc created", colors.green);
+  }
+
+  // Add scripts to package.json
+  log("  Adding lint scripts to package.json...", colors.cyan);
+  try {
+    const scripts = {
+      lint: config.lintingSetup === "eslint-prettier"
+        ? "eslint frontend/"
+        : "shopify theme check",
+      "lint:fix": config.lintingSetup === "eslint-prettier"
+        ? "eslint frontend/ --fix"
+        : "shopify theme check --auto-correct",
+      format: "prettier --write frontend/",
+      prepare: "husky",
+    };
+
+    await writeProjectFile("package.json", JSON.stringify({ scripts }, null, 2), { merge: mergePackageJson });
+    log("✓ Lint scripts added to package.json", colors.green);
+  } catch (error) {
+    log("⚠️ Could not update package.json scripts", colors.yellow);
+  }
+}
+
+async function addTomlToGitignore(): Promise<StepResult | void> {
+  header("Securing shopify.theme.toml");
+
+  try {
+    const gitignoreContent = await readProjectFile(".gitignore");
+
+    // Check if shopify.theme.toml is already in gitignore
+    if (!gitignoreContent.includes("shopify.theme.toml")) {
+      // Add it under the Shopify theme files section
+      await writeProjectFile(".gitignore", "# Shopify theme files\nshopify.theme.toml\n", { merge: mergeIgnoreFile });
+      log("✓ shopify.theme.toml added to .gitignore", colors.green);
+      log("  Your store credentials are now protected from being committed", colors.cyan);
+    } else {
+      log("✓ shopify.theme.toml already in .gitignore", colors.green);
+    }
+  } catch (error) {
+    log("✗ Error updating .gitignore", colors.red);
+    console.error(error);
+    return stepFailed(error);
+  }
+}
+
+async function createCoreFiles(config: SetupConfig) {
+  header("Creating Core Utility Files");
+
+  const namespace = projectNames(config.projectName).identifier;
+  const ext = scriptExtension(config);
+  const t = typed(config);
+
+  // Event bus
+  const eventsJs = `/**
+ * Events
+ * Typed wrappers around window.${namespace}.events, plus delegated DOM listeners
+ */
+${t(`
+import type { Cart, CartError } from '~/scripts/cart';
+
+/**
+ * Theme events and their payloads. Modules add their own entries with declaration merging:
+ * declare module '~/scripts/events' { interface ThemeEventMap { 'wishlist:added': { id: number } } }
+ */
+export interface ThemeEventMap {
+  'cart:updated': { cart: Cart };
+  'cart:error': { error: CartError };
+  'cart:open': null;
+  'variant:changed': { sectionId: string; productId: number; variantId: number };
+  'drawer:open': { id: string };
+  'drawer:close': { id: string };
+  /** A section's markup was replaced (Section Rendering API or theme editor) */
+  'section:loaded': { sectionId: string };
+}
+
+export type ThemeEventName = keyof ThemeEventMap & string;
+export type ThemeEventHandler<K extends ThemeEventName> = (detail: ThemeEventMap[K]) => void;
+
+interface Delegate {
+  selector: string;
+  handler: (event: Event, element: Element) => void;
+}
+`)}
+// Listener actually added for each handler, so off() can remove it
+const listeners = new Map${t("<string, Map<unknown, EventListener>>")}();
+
+const delegates = new Map${t("<string, Set<Delegate>>")}();
+
+export function on${t("<K extends ThemeEventName>")}(${t(`
+  type: K,
+  handler: ThemeEventHandler<K>,
+  options: { once?: boolean } = {}
+`, "type, handler, options = {}")}) {
+  if (!listeners.has(type)) {
+    listeners.set(type, new Map());
+  }
+
+  const listener = (event${t(": Event")}) => {
+    if (options.once) off(type, handler);
+    handler(${t("(event as CustomEvent<ThemeEventMap[K]>).detail", "/** @type {CustomEvent} */ (event).detail")});
+  };
+
+  off(type, handler);
+  listeners.get(type)${t("!")}.set(handler, listener);
+  window.${namespace}.events.addEventListener(type, listener);
+
+  return () => off(type, handler);
+}
+
+export function once${t("<K extends ThemeEventName>")}(type${t(": K")}, handler${t(": ThemeEventHandler<K>")}) {
+  return on(type, handler, { once: true });
+}
+
+export function off${t("<K extends ThemeEventName>")}(type${t(": K")}, handler${t(": ThemeEventHandler<K>")}) {
+  const listener = listeners.get(type)?.get(handler);
+  if (!listener) return;
+
+  window.${namespace}.events.removeEventListener(type, listener);
+  listeners.get(type)${t("!")}.delete(handler);
+}
+
+export function emit${t("<K extends ThemeEventName>")}(type${t(": K")}, detail${t(": ThemeEventMap[K]")}) {
+  window.${namespace}.events.dispatchEvent(new CustomEvent(type, { detail }));
+}
+
+function handleDelegated(event${t(": Event")}) {
+  if (!(event.target instanceof Element)) return;
+  const target = event.target;
+
+  delegates.get(event.type)?.forEach(({ selector, handler }) => {
+    const element = target.closest(selector);
+    if (element) handler(event, element);
+  });
+}
+
+/**
+ * Adds the one document listener that serves every delegate() call for an event type.
+ * Only events that bubble reach it: use focusin/focusout rather than focus/blur.
+ */
+export function listenGlobally(type${t(": string")}) {
+  if (delegates.has(type)) return;
+
+  delegates.set(type, new Set());
+  document.addEventListener(type, handleDelegated);
+}
+
+/** Calls handler for events on selector matches, including elements added later */
+export function delegate${t("<K extends keyof DocumentEventMap, T extends Element = HTMLElement>")}(${t(`
+  selector: string,
+  type: K,
+  handler: (event: DocumentEventMap[K], element: T) => void
+`, "selector, type, handler")}) {
+  listenGlobally(type);
+
+  const entry = { selector, handler }${t(" as Delegate")};
+  delegates.get(type)${t("!")}.add(entry);
+
+  return () => {
+    delegates.get(type)?.delete(entry);
+  };
+}
+`;
+
+  await writeProjectFile(`frontend/scripts/events.${ext}`, eventsJs);
+  log(`✓ events.${ext} created`, colors.green);
+
+  // logger.js / logger.ts
+  const loggerJs = `/**
+ * Logger
+ * Namespaced console logging with levels. Development builds log everything;
+ * production builds only warnings and errors, unless debugging is switched on
+ * for some namespaces with ?debug=cart,sections (stored in localStorage,
+ * ?debug=off clears it). Recent entries are kept for bug reports: dumpLogs().
+ */
+${t(`
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export interface LogEntry {
+  time: string;
+  level: LogLevel;
+  namespace: string;
+  message: string;
+  data?: unknown;
+}
+
+export type Logger = Record<LogLevel, (message: string, data?: unknown) => void>;
+`)}
+const levels${t(": Record<LogLevel, number>")} = { debug: 0, info: 1, warn: 2, error: 3 };
+const minimumLevel = import.meta.env.THEME_DEV ? levels.debug : levels.warn;
+
+const styles${t(": Record<LogLevel, string>")} = {
+  debug: 'color: #6b7280',
+  info: 'color: #10b981',
+  warn: 'color: #f59e0b',
+  error: 'color: #ef4444',
+};
+
+// console.debug is hidden by default in most browsers
+const consoleMethods${t(": Record<LogLevel, 'log' | 'info' | 'warn' | 'error'>")} = {
+  debug: 'log',
+  info: 'info',
+  warn: 'warn',
+  error: 'error',
+};
+
+const storageKey = 'theme:debug';
+const bufferSize = 200;
+const buffer${t(": LogEntry[]")} = [];
+
+let debugPatterns${t(": RegExp[]")} = [];
+
+/**
+ * Logs every level for matching namespaces: 'cart' matches Cart and Cart:drawer,
+ * 'section*' matches Sections and Section:main-product, '*' matches everything
+ */
+function parseDebug(value${t(": string")})${t(": RegExp[]")} {
+  return value
+    .split(',')
+    .map((token) => token.trim().replace(/[^\\w:*-]/g, ''))
+    .filter(Boolean)
+    .map((token) => new RegExp(\`^\${token.replace(/\\*/g, '.*')}(:|$)\`, 'i'));
+}
+
+/** Sets the namespaces to debug and remembers them across page loads; null or 'off' clears */
+export function setDebug(value${t(": string | null")}) {
+  const enabled = value !== null && value !== 'off';
+  debugPatterns = enabled ? parseDebug(value || '*') : [];
+
+  try {
+    if (enabled) {
+      localStorage.setItem(storageKey, value || '*');
+    } else {
+      localStorage.removeItem(storageKey);
+    }
+  } catch {
+    // Storage is unavailable in some private browsing modes
+  }
+}
+
+try {
+  debugPatterns = parseDebug(localStorage.getItem(storageKey) || '');
+} catch {
+  // Storage is unavailable in some private browsing modes
+}
+
+function write(level${t(": LogLevel")}, namespace${t(": string")}, message${t(": string")}, data${t("?: unknown")}) {
+  buffer.push({ time: new Date().toISOString(), level, namespace, message, data });
+  if (buffer.length > bufferSize) buffer.shift();
+
+  const debugging = debugPatterns.some((pattern) => pattern.test(namespace));
+  if (levels[level] < minimumLevel && !debugging) return;
+
+  const args = data === undefined ? [] : [data];
+  console[consoleMethods[level]](\`%c[\${namespace}] \${message}\`, styles[level], ...args);
+}
+
+export function createLogger(namespace${t(": string")})${t(": Logger")} {
+  return {
+    debug: (message, data) => write('debug', namespace, message, data),
+    info: (message, data) => write('info', namespace, message, data),
+    warn: (message, data) => write('warn', namespace, message, data),
+    error: (message, data) => write('error', namespace, message, data),
+  };
+}
+
+/** Recent entries of every level, including ones that weren't printed */
+export function getLogs()${t(": LogEntry[]")} {
+  return [...buffer];
+}
+
+/** Recent entries as text, one per line, to paste into a bug report */
+export function dumpLogs()${t(": string")} {
+  return buffer
+    .map(({ time, level, namespace, message, data }) => {
+      let details = '';
+      if (data !== undefined) {
+        try {
+          details = \` \${JSON.stringify(data instanceof Error ? { name: data.name, message: data.message } : data)}\`;
+        } catch {
+          details = \` \${String(data)}\`;
+        }
+      }
+      return \`\${time} \${level.toUpperCase()} [\${namespace}] \${message}\${details}\`;
+    })
+    .join('\\n');
+}
+`;
+
+  await writeProjectFile(`frontend/scripts/logger.${ext}`, loggerJs);
+  log(`✓ logger.${ext} created`, colors.green);
+
+  // URL parameter handlers
+  const urlParams = `/**
+ * URL Parameters
+ * Modules register handlers for query parameters (?cart_open) or hash
+ * fragments (#variant=123); handleUrlParams() runs them once the DOM is ready
+ */
+
+import { createLogger } from '~/scripts/logger';
+${t(`
+export interface UrlParamOptions {
+  /** Higher runs first; default 0 */
+  priority?: number;
+  /** Remove the parameter from the address bar (history.replaceState) once handled */
+  strip?: boolean;
+}
+
+/** Receives the parameter's value ('' for a bare flag) and all parameters from the same source */
+export type UrlParamHandler = (value: string, params: URLSearchParams) => void;
+
+interface RegisteredHandler extends Required<UrlParamOptions> {
+  param: string;
+  handle: UrlParamHandler;
+}
+`)}
+const logger = createLogger('UrlParams');
+const handlers${t(": RegisteredHandler[]")} = [];
+let handled = false;
+
+// URLSearchParams.toString() would turn bare flags such as ?cart_open into ?cart_open=
+function serialize(params${t(": URLSearchParams")})${t(": string")} {
+  return [...params]
+    .map(([key, value]) =>
+      value ? \`\${encodeURIComponent(key)}=\${encodeURIComponent(value)}\` : encodeURIComponent(key)
+    )
+    .join('&');
+}
+
+function runHandlers(selected${t(": RegisteredHandler[]")}) {
+  const url = new URL(window.location.href);
+  const searchParams = new URLSearchParams(url.search);
+  const hashParams = new URLSearchParams(url.hash.slice(1));
+  let stripped = false;
+
+  [...selected]
+    .sort((a, b) => b.priority - a.priority)
+    .forEach(({ param, handle, strip }) => {
+      const isHash = param.startsWith('#');
+      const name = isHash ? param.slice(1) : param;
+      const params = isHash ? hashParams : searchParams;
+      if (!params.has(name)) return;
+
+      try {
+        handle(params.get(name) || '', params);
+      } catch (error) {
+        logger.error(\`Handler for \${param} failed\`, error);
+      }
+
+      if (strip) {
+        params.delete(name);
+        stripped = true;
+      }
+    });
+
+  if (stripped) {
+    url.search = serialize(searchParams);
+    url.hash = serialize(hashParams);
+    window.history.replaceState(window.history.state, '', url);
+  }
+}
+
+/**
+ * Registers a handler for a query parameter, or a hash fragment when param starts
+ * with '#'. Handlers registered after handleUrlParams() has run are called straight away.
+ * Returns a function that unregisters the handler.
+ */
+export function registerUrlParam(${t(`
+  param: string,
+  handle: UrlParamHandler,
+  options: UrlParamOptions = {}
+`, "param, handle, options = {}")}) {
+  const handler = { param, handle, priority: options.priority ?? 0, strip: options.strip ?? false };
+  handlers.push(handler);
+
+  if (handled) {
+    runHandlers([handler]);
+  }
+
+  return () => {
+    // Calling it twice must not remove an unrelated handler
+    const index = handlers.indexOf(handler);
+    if (index !== -1) handlers.splice(index, 1);
+  };
+}
+
+/** Runs every registered handler whose parameter is in the current URL, in priority order */
+export function handleUrlParams() {
+  handled = true;
+  runHandlers(handlers);
+}
+`;
+
+  await writeProjectFile(`frontend/scripts/urlParams.${ext}`, urlParams);
+  log(`✓ urlParams.${ext} created`, colors.green);
+
+  // utils.js / utils.ts
+  const utilsJs = `/**
+ * Core Utility Functions
+ */
 
-  // Lock Vite to 6.0.8 if tunnel is enabled
-  if (config.enableTunnel) {
-    log("✓ Vite version will be locked to 6.0.8 for tunnel compatibility", colors.green);
+import { listenGlobally, on } from '~/scripts/events';
+import { createLogger, setDebug } from '~/scripts/logger';
+import { registerUrlParam } from '~/scripts/urlParams';
+
+export { handleUrlParams, registerUrlParam } from '~/scripts/urlParams';
+${t(`
+type MessageType = 'log' | 'info' | 'warn' | 'error';
+`)}
+const themeLogger = createLogger('Theme');
+const cartLogger = createLogger('Cart');
+
+/** Logs under the [Theme] namespace; modules use their own createLogger() */
+export function consoleMessage(message${t(": string")}, type${t(": MessageType")} = 'log', data${t("?: unknown")}) {
+  themeLogger[type === 'log' ? 'debug' : type](message, data);
+}
+
+// Shopify money format placeholders: [decimals, thousands separator, decimal separator]
+const moneyPlaceholders${t(": Record<string, [number, string, string]>")} = {
+  amount: [2, ',', '.'],
+  amount_no_decimals: [0, ',', '.'],
+  amount_with_comma_separator: [2, '.', ','],
+  amount_no_decimals_with_comma_separator: [0, '.', ','],
+  amount_with_apostrophe_separator: [2, "'", '.'],
+  amount_with_space_separator: [2, ' ', ','],
+  amount_no_decimals_with_space_separator: [0, ' ', ','],
+};
+
+/**
+ * Formats a price in cents with the shop's money format (e.g. '\${{amount}}' or
+ * '{{amount_with_comma_separator}} €'). Without one it formats the active currency
+ * with Intl.NumberFormat. Cents may be a string, as read from a data attribute;
+ * null, undefined and anything else that isn't a number format as 0.
+ */
+export function formatMoney(${t(`
+  cents: number | string | null | undefined,
+  format: string = window.${namespace}.theme.moneyFormat
+): string`, `cents, format = window.${namespace}.theme.moneyFormat)`)} {
+  const amount = Number(cents) / 100 || 0;
+
+  if (!format) {
+    return new Intl.NumberFormat(document.documentElement.lang || undefined, {
+      style: 'currency',
+      currency: window.${namespace}.theme.currency,
+    }).format(amount);
   }
+
+  return format.replace(/\\{\\{\\s*(\\w+)\\s*\\}\\}/, (placeholder, name) => {
+    const separators = moneyPlaceholders[name];
+    if (!separators) return placeholder;
+
+    const [decimals, thousands, decimal] = separators;
+    const [whole, fraction] = amount.toFixed(decimals).split('.');
+    const grouped = whole.replace(/\\B(?=(\\d{3})+(?!\\d))/g, thousands);
+    return fraction ? \`\${grouped}\${decimal}\${fraction}\` : grouped;
+  });
 }
 
-async function createPostCSSConfig(config: SetupConfig) {
-  header("Creating PostCSS Configuration");
+export function initGlobalEvents() {
+  // Global click listener; delegate(selector, 'click', handler) adds handlers to it
+  listenGlobally('click');
 
-  let postcssConfig = `export default {
-  plugins: {
-    autoprefixer: {},
-  },
+  // Keep cart count badges ({{ cart.item_count }} in Liquid) current after cart changes
+  on('cart:updated', ({ cart }) => {
+    document.querySelectorAll('[data-cart-count]').forEach((element) => {
+      element.textContent = String(cart.item_count);
+    });
+  });
+
+  on('cart:error', ({ error }) => {
+    cartLogger.error('Request failed', error);
+  });
 }
-`;
 
-  if (config.stylingApproach === "tailwind") {
-    postcssConfig = `export default {
-  plugins: {
-    tailwindcss: {},
-    autoprefixer: {},
-  },
+// ?debug=cart,sections logs every level for those namespaces; ?debug=off stops.
+// Runs first so the other handlers' logging already follows it
+registerUrlParam('debug', (value) => setDebug(value), { priority: 100 });
+
+export function debounce${t("<T extends (...args: never[]) => void>")}(func${t(": T")}, wait${t(": number")}) {
+  let timeout${t(": ReturnType<typeof setTimeout> | undefined")};
+  return function executedFunction(...args${t(": Parameters<T>")}) {
+    const later = () => {
+      clearTimeout(timeout);
+      func(...args);
+    };
+    clearTimeout(timeout);
+    timeout = setTimeout(later, wait);
+  };
 }
 `;
+
+  await writeProjectFile(`frontend/scripts/utils.${ext}`, utilsJs);
+  log(`✓ utils.${ext} created`, colors.green);
+
+  const utilsTest = `/**
+ * Utility Tests
+ */
+
+import { beforeEach, describe, expect, it } from 'vitest';
+import { formatMoney } from '~/scripts/utils';
+${t(`import type { ThemeNamespace } from '~/scripts/types';
+`)}
+beforeEach(() => {
+  window.${namespace} = ${t("", "/** @type {import('~/scripts/types').ThemeNamespace} */ (")}{
+    theme: { moneyFormat: '\${{amount}}', currency: 'USD' },
+  }${t(" as ThemeNamespace", ")")};
+  document.documentElement.lang = 'en-US';
+});
+
+describe('formatMoney', () => {
+  it.each([
+    ['{{amount}}', '1,234,567.89'],
+    ['{{amount_no_decimals}}', '1,234,568'],
+    ['{{amount_with_comma_separator}}', '1.234.567,89'],
+    ['{{amount_no_decimals_with_comma_separator}}', '1.234.568'],
+    ['{{amount_with_apostrophe_separator}}', "1'234'567.89"],
+    ['{{amount_with_space_separator}}', '1 234 567,89'],
+    ['{{amount_no_decimals_with_space_separator}}', '1 234 568'],
+  ])('formats %s', (format, expected) => {
+    expect(formatMoney(123456789, format)).toBe(expected);
+  });
+
+  it('keeps the text around the placeholder and allows spaces inside it', () => {
+    expect(formatMoney(1999, '€{{ amount_with_comma_separator }} EUR')).toBe('€19,99 EUR');
+  });
+
+  it('leaves unknown placeholders alone', () => {
+    expect(formatMoney(1999, '{{price}}')).toBe('{{price}}');
+  });
+
+  it('falls back to theme.moneyFormat', () => {
+    expect(formatMoney(1999)).toBe('$19.99');
+
+    window.${namespace}.theme.moneyFormat = '{{amount_with_comma_separator}} €';
+    expect(formatMoney(123456)).toBe('1.234,56 €');
+  });
+
+  it('formats the active currency with Intl.NumberFormat without a money format', () => {
+    window.${namespace}.theme.moneyFormat = '';
+    window.${namespace}.theme.currency = 'EUR';
+    expect(formatMoney(123456)).toBe('€1,234.56');
+  });
+
+  it('accepts cents as a string', () => {
+    expect(formatMoney('1999')).toBe('$19.99');
+    expect(formatMoney('123456', '{{amount_no_decimals}}')).toBe('1,235');
+  });
+
+  it.each([null, undefined, NaN, 'not a price'])('formats %s as 0', (cents) => {
+    expect(formatMoney(cents)).toBe('$0.00');
+    expect(formatMoney(cents, '{{amount_no_decimals}} kr')).toBe('0 kr');
+  });
+});
+`;
+
+  await writeProjectFile(`frontend/scripts/utils.test.${ext}`, utilsTest);
+  log(`✓ utils.test.${ext} created`, colors.green);
+
+  // cart.js / cart.ts
+  const cartJs = `/**
+ * Cart
+ * Wraps the Ajax Cart API, keeps window.${namespace}.cart in sync and dispatches
+ * cart:updated / cart:error on window.${namespace}.events
+ * https://shopify.dev/docs/api/ajax/reference/cart
+ */
+
+import { emit } from '~/scripts/events';
+import { createLogger } from '~/scripts/logger';
+import { registerUrlParam } from '~/scripts/urlParams';
+${t(`
+export interface CartLineItem {
+  key: string;
+  id: number;
+  variant_id: number;
+  product_id: number;
+  quantity: number;
+  title: string;
+  url: string;
+  image: string | null;
+  price: number;
+  final_line_price: number;
+  properties: Record<string, string> | null;
+}
+
+export interface Cart {
+  token: string;
+  item_count: number;
+  total_price: number;
+  currency: string;
+  note: string | null;
+  attributes: Record<string, string>;
+  items: CartLineItem[];
+}
+
+export interface CartAddItem {
+  id: number;
+  quantity?: number;
+  properties?: Record<string, string>;
+  selling_plan?: number;
+}
+`)}
+const logger = createLogger('Cart');
+
+export class CartError extends Error {
+  ${t("status: number;\n\n  ")}constructor(message${t(": string")}, status${t(": number")}) {
+    super(message);
+    this.name = 'CartError';
+    this.status = status;
   }
+}
 
-  await writeFile("postcss.config.js", postcssConfig);
-  log("✓ postcss.config.js created", colors.green);
+// Requests run one at a time, so quick quantity changes apply in order
+let queue${t(": Promise<unknown>")} = Promise.resolve();
+
+function enqueue${t("<T>")}(task${t(": () => Promise<T>")})${t(": Promise<T>")} {
+  const result = queue.then(task);
+  queue = result.catch(() => undefined);
+  return result;
 }
 
-async function createGitIgnore() {
-  header("Creating .gitignore");
+async function request${t("<T>")}(path${t(": string")}, body${t("?: object")})${t(": Promise<T>")} {
+  const root = window.Shopify?.routes?.root || '/';
+  const response = await fetch(\`\${root}\${path}\`, {
+    method: body ? 'POST' : 'GET',
+    headers: { 'Content-Type': 'application/json', Accept: 'application/json' },
+    body: body ? JSON.stringify(body) : undefined,
+  });
+  const data = await response.json().catch(() => ({}));
 
-  const gitignore = `# Node.js dependencies
-node_modules/
-npm-debug.log*
-yarn-debug.log*
-yarn-error.log*
-pnpm-debug.log*
-lerna-debug.log*
+  if (!response.ok) {
+    // Errors come back as { status, message, description }, e.g. 422 when out of stock
+    throw new CartError(data.description || data.message || response.statusText, response.status);
+  }
+  return data;
+}
 
-# Environment variables
-.env
-.env.local
-.env.*.local
-.env.development.local
-.env.test.local
-.env.production.local
+function syncCart(cart${t(": Cart")})${t(": Cart")} {
+  window.${namespace}.cart.count = cart.item_count;
+  window.${namespace}.cart.total = cart.total_price;
+  emit('cart:updated', { cart });
+  return cart;
+}
 
-# Vite
-dist/
-dist-ssr/
-*.local
-.vite/
+function runCartRequest(task${t(": () => Promise<Cart>")})${t(": Promise<Cart>")} {
+  return enqueue(async () => {
+    try {
+      return syncCart(await task());
+    } catch (error) {
+      const cartError = error instanceof CartError ? error : new CartError(String(error), 0);
+      emit('cart:error', { error: cartError });
+      throw cartError;
+    }
+  });
+}
 
-# Editor directories and files
-.vscode/*
-!.vscode/extensions.json
-!.vscode/settings.json
-.idea/
-.DS_Store
-*.suo
-*.ntvs*
-*.njsproj
-*.sln
-*.sw?
+export function getCart()${t(": Promise<Cart>")} {
+  return runCartRequest(() => request('cart.js'));
+}
 
-# OS files
-Thumbs.db
-.DS_Store
-*~
-.Spotlight-V100
-.Trashes
+export function addToCart(items${t(": CartAddItem | CartAddItem[]")})${t(": Promise<Cart>")} {
+  return runCartRequest(async () => {
+    // add.js only returns the added items
+    await request('cart/add.js', { items: Array.isArray(items) ? items : [items] });
+    return request('cart.js');
+  });
+}
 
-# Shopify theme files
-config/settings_data.json
+/** Sets the quantity of one line; key is the line item key, 0 removes it */
+export function changeCartItem(key${t(": string")}, quantity${t(": number")})${t(": Promise<Cart>")} {
+  return runCartRequest(() => request('cart/change.js', { id: key, quantity }));
+}
 
-# Build artifacts
-*.log
-*.tsbuildinfo
+/** Sets several quantities (keyed by variant ID or line item key), the note or attributes */
+export function updateCart(changes${t(`: {
+  updates?: Record<string, number>;
+  note?: string;
+  attributes?: Record<string, string>;
+}`)})${t(": Promise<Cart>")} {
+  return runCartRequest(() => request('cart/update.js', changes));
+}
 
-# Lock files (keep only one)
-package-lock.json
-yarn.lock
-pnpm-lock.yaml
+// ?cart_open fetches the current cart, then lets the cart drawer (or any listener) open itself
+registerUrlParam(
+  'cart_open',
+  () => {
+    logger.info('Opening cart from URL parameter');
+    getCart()
+      .then(() => emit('cart:open', null))
+      .catch(() => undefined);
+  },
+  { strip: true }
+);
 `;
 
-  await writeFile(".gitignore", gitignore);
-  log("✓ .gitignore created", colors.green);
+  await writeProjectFile(`frontend/scripts/cart.${ext}`, cartJs);
+  log(`✓ cart.${ext} created`, colors.green);
+
+  const cartTest = `/**
+ * Cart Tests
+ * Runs the cart module against an in-memory fake of the Ajax Cart API
+ * (/cart.js, /cart/add.js, /cart/change.js and /cart/update.js)
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { addToCart, CartError, changeCartItem, getCart, updateCart } from '~/scripts/cart';
+import { on } from '~/scripts/events';
+${t(`import type { CartAddItem, CartLineItem } from '~/scripts/cart';
+import type { ThemeNamespace } from '~/scripts/types';
+`)}
+// Units in stock per variant; variant 99 is sold out
+const stock${t(": Record<number, number>")} = { 1: 10, 2: 10, 99: 0 };
+
+let lines${t(": CartLineItem[]")} = [];
+let requests${t(": Array<{ path: string; body: unknown }>")} = [];
+let inFlight = 0;
+let maxInFlight = 0;
+
+function line(variantId${t(": number")}, quantity${t(": number")})${t(": CartLineItem")} {
+  return {
+    key: \`\${variantId}:fake\`,
+    id: variantId,
+    variant_id: variantId,
+    product_id: 100 + variantId,
+    quantity,
+    title: \`Variant \${variantId}\`,
+    url: \`/products/fake?variant=\${variantId}\`,
+    image: null,
+    price: 1000,
+    final_line_price: 1000 * quantity,
+    properties: null,
+  };
 }
 
-async function createShopifyIgnore() {
-  header("Creating .shopifyignore");
+function cart() {
+  return {
+    token: 'fake',
+    item_count: lines.reduce((sum, item) => sum + item.quantity, 0),
+    total_price: lines.reduce((sum, item) => sum + item.final_line_price, 0),
+    currency: 'USD',
+    note: null,
+    attributes: {},
+    items: lines,
+  };
+}
 
-  const shopifyignore = `# Shopify Ignore - Files to exclude from theme uploads
+// Like Shopify: 0 removes the line, more than is in stock fails and changes nothing
+function setQuantity(variantId${t(": number")}, quantity${t(": number")}) {
+  if (quantity > (stock[variantId] ?? 0)) return false;
 
-# Node modules
-node_modules/
+  lines = lines.filter((item) => item.variant_id !== variantId);
+  if (quantity > 0) lines.push(line(variantId, quantity));
+  return true;
+}
 
-# Source files (Vite will build these)
-frontend/
+function respond(data${t(": unknown")}, status = 200) {
+  return new Response(JSON.stringify(data), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
 
-# Config files
-vite.config.js
-postcss.config.js
-tailwind.config.js
-package.json
-bun.lockb
-package-lock.json
-yarn.lock
-pnpm-lock.yaml
+function soldOut() {
+  return respond(
+    { status: 422, message: 'Cart Error', description: 'The product is already sold out.' },
+    422
+  );
+}
 
-# Build configs
-.vite/
-tsconfig.json
-.eslintrc*
-.prettierrc*
+async function fakeFetch(input${t(": RequestInfo | URL")}, init${t(": RequestInit")} = {}) {
+  const path = String(input);
+  const body${t(`: {
+    items?: CartAddItem[];
+    id?: string;
+    quantity?: number;
+    updates?: Record<string, number>;
+  }`)} = init.body ? JSON.parse(String(init.body)) : {};
+  requests.push({ path, body });
+
+  // Each request answers sooner than the one before, so requests that overlapped
+  // would complete out of order
+  inFlight += 1;
+  maxInFlight = Math.max(maxInFlight, inFlight);
+  await new Promise((resolve) => setTimeout(resolve, Math.max(0, 40 - requests.length * 5)));
+  inFlight -= 1;
+
+  switch (path) {
+    case '/cart.js':
+      return respond(cart());
+    case '/cart/add.js': {
+      const added = [];
+      for (const item of body.items ?? []) {
+        const quantity =
+          (lines.find((entry) => entry.variant_id === item.id)?.quantity ?? 0) +
+          (item.quantity ?? 1);
+        if (!setQuantity(item.id, quantity)) return soldOut();
+        added.push(line(item.id, quantity));
+      }
+      return respond({ items: added });
+    }
+    case '/cart/change.js': {
+      const variantId = lines.find((item) => item.key === body.id)?.variant_id;
+      if (variantId === undefined) {
+        return respond(
+          { status: 400, message: 'Bad Request', description: 'No line item with this key' },
+          400
+        );
+      }
+      return setQuantity(variantId, body.quantity ?? 0) ? respond(cart()) : soldOut();
+    }
+    case '/cart/update.js':
+      for (const [id, quantity] of Object.entries(body.updates ?? {})) {
+        if (!setQuantity(Number(id), quantity)) return soldOut();
+      }
+      return respond(cart());
+    default:
+      return respond({ status: 404, message: 'Not Found', description: path }, 404);
+  }
+}
 
-# Git files
-.git/
-.gitignore
-.gitattributes
+beforeEach(() => {
+  lines = [];
+  requests = [];
+  inFlight = 0;
+  maxInFlight = 0;
+  window.${namespace} = ${t("", "/** @type {import('~/scripts/types').ThemeNamespace} */ (")}{
+    events: new EventTarget(),
+    cart: { count: 0, total: 0 },
+  }${t(" as ThemeNamespace", ")")};
+  vi.stubGlobal('fetch', fakeFetch);
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('cart', () => {
+  it('applies queued changes one at a time, in the order they were made', async () => {
+    await addToCart({ id: 1, quantity: 1 });
+    const [item] = lines;
+
+    const results = await Promise.all([
+      changeCartItem(item.key, 5),
+      changeCartItem(item.key, 2),
+      changeCartItem(item.key, 3),
+    ]);
+
+    expect(maxInFlight).toBe(1);
+    expect(
+      requests.filter(({ path }) => path === '/cart/change.js').map(({ body }) => body)
+    ).toEqual([
+      { id: item.key, quantity: 5 },
+      { id: item.key, quantity: 2 },
+      { id: item.key, quantity: 3 },
+    ]);
+    expect(results).toMatchObject([{ item_count: 5 }, { item_count: 2 }, { item_count: 3 }]);
+    expect(window.${namespace}.cart.count).toBe(3);
+  });
 
-# CI/CD
-.github/
+  it('keeps window.${namespace}.cart in sync with the cart', async () => {
+    await addToCart([{ id: 1, quantity: 2 }, { id: 2 }]);
+    expect(window.${namespace}.cart).toEqual({ count: 3, total: 3000 });
 
-# Documentation
-README.md
-CLAUDE.md
-project_setup.md
-*.md
+    await updateCart({ updates: { 1: 0 } });
+    expect(window.${namespace}.cart).toEqual({ count: 1, total: 1000 });
 
-# Setup script
-setup.ts
+    // Changed elsewhere, e.g. in another tab
+    lines = [line(2, 4)];
+    await getCart();
+    expect(window.${namespace}.cart).toEqual({ count: 4, total: 4000 });
+  });
 
-# Environment files
-.env*
+  it('emits cart:updated with the new cart', async () => {
+    const updated = vi.fn();
+    on('cart:updated', updated);
 
-# Editor directories
-.vscode/
-.idea/
-*.swp
-*.swo
+    const result = await addToCart({ id: 2, quantity: 2 });
 
-# OS files
-.DS_Store
-Thumbs.db
+    expect(updated).toHaveBeenCalledTimes(1);
+    expect(updated).toHaveBeenCalledWith({ cart: result });
+  });
+
+  it('emits cart:error and rejects with a CartError on a 422', async () => {
+    await addToCart({ id: 1 });
+    const failed = vi.fn();
+    const updated = vi.fn();
+    on('cart:error', failed);
+    on('cart:updated', updated);
+
+    const request = addToCart({ id: 99 });
+
+    await expect(request).rejects.toBeInstanceOf(CartError);
+    await expect(request).rejects.toMatchObject({
+      status: 422,
+      message: 'The product is already sold out.',
+    });
+    expect(failed).toHaveBeenCalledTimes(1);
+    expect(failed.mock.calls[0][0].error).toMatchObject({ status: 422 });
+    expect(updated).not.toHaveBeenCalled();
+    expect(window.${namespace}.cart).toEqual({ count: 1, total: 1000 });
+  });
+
+  it('carries on with queued changes after one fails', async () => {
+    await addToCart({ id: 1 });
+    const [item] = lines;
+
+    const [tooMany, next] = await Promise.allSettled([
+      changeCartItem(item.key, 11),
+      changeCartItem(item.key, 4),
+    ]);
+
+    expect(tooMany).toMatchObject({ status: 'rejected', reason: { status: 422 } });
+    expect(next).toMatchObject({ status: 'fulfilled', value: { item_count: 4 } });
+    expect(window.${namespace}.cart.count).toBe(4);
+  });
+});
 `;
 
-  await writeFile(".shopifyignore", shopifyignore);
-  log("✓ .shopifyignore created", colors.green);
+  await writeProjectFile(`frontend/scripts/cart.test.${ext}`, cartTest);
+  log(`✓ cart.test.${ext} created`, colors.green);
+
+  // Core Web Vitals
+  const webVitals = `/**
+ * Web Vitals
+ * Measures LCP, CLS, INP, FCP and TTFB and reports each once, with its final value,
+ * to every registered sink
+ * https://web.dev/articles/vitals
+ */
+
+import { createLogger } from '~/scripts/logger';
+${t(`
+export type VitalName = 'LCP' | 'CLS' | 'INP' | 'FCP' | 'TTFB';
+
+export interface VitalReport {
+  name: VitalName;
+  /** Milliseconds; CLS is unitless */
+  value: number;
+  rating: 'good' | 'needs-improvement' | 'poor';
+  /** window.theme.template, e.g. 'product' */
+  template: string;
+  /** Sections containing the elements behind the value (LCP element, shifted nodes, interaction target) */
+  sectionIds: string[];
+  path: string;
 }
 
-async function createGitHubWorkflow(config: SetupConfig) {
-  header("Creating GitHub Actions Workflow");
+export type VitalsSink = (report: VitalReport) => void;
 
-  const workflow = `name: Build Vite Assets
+interface LayoutShift extends PerformanceEntry {
+  value: number;
+  hadRecentInput: boolean;
+  sources: { node: Node | null }[];
+}
+`)}
+// [good, poor] boundaries
+const thresholds${t(": Record<VitalName, [number, number]>")} = {
+  LCP: [2500, 4000],
+  CLS: [0.1, 0.25],
+  INP: [200, 500],
+  FCP: [1800, 3000],
+  TTFB: [800, 1800],
+};
 
-on:
-  push:
-    branches: [main, develop]
-  pull_request:
-    branches: [main, develop]
+const logger = createLogger('WebVitals');
+const sinks${t(": VitalsSink[]")} = [];
+// Everything reported so far, replayed to sinks added later (TTFB is reported straight away)
+const reports${t(": VitalReport[]")} = [];
+let started = false;
+
+function deliver(sink${t(": VitalsSink")}, vital${t(": VitalReport")}) {
+  try {
+    sink(vital);
+  } catch (error) {
+    logger.error('Sink failed', error);
+  }
+}
+
+export const consoleSink${t(": VitalsSink")} = (report) => {
+  logger.info(
+    \`\${report.name} = \${report.value.toFixed(report.name === 'CLS' ? 3 : 0)} (\${report.rating})\`,
+    report
+  );
+};
+
+/** Posts each report as JSON; sendBeacon still delivers while the page unloads */
+export function beaconSink(url${t(": string")})${t(": VitalsSink")} {
+  return (report) => {
+    navigator.sendBeacon(url, JSON.stringify(report));
+  };
+}
+
+/** Adds a sink; it first receives every metric already reported */
+export function addVitalsSink(sink${t(": VitalsSink")}) {
+  sinks.push(sink);
+  reports.forEach((vital) => deliver(sink, vital));
+  return () => {
+    const index = sinks.indexOf(sink);
+    if (index !== -1) sinks.splice(index, 1);
+  };
+}
+
+function sectionIdsFor(nodes${t(": (Node | null | undefined)[]")})${t(": string[]")} {
+  const ids = nodes.map((node) => {
+    const element = node instanceof Element ? node : node?.parentElement;
+    const section = element?.closest${t("<HTMLElement>")}('[data-section-id], .shopify-section');
+    return section?.dataset.sectionId || section?.id.replace(/^shopify-section-/, '');
+  });
+  return [...new Set(ids.filter(Boolean))]${t(" as string[]")};
+}
+
+function report(name${t(": VitalName")}, value${t(": number")}, nodes${t(": (Node | null | undefined)[]")} = []) {
+  if (reports.some((vital) => vital.name === name)) return;
+
+  const [good, poor] = thresholds[name];
+  const vital${t(": VitalReport")} = {
+    name,
+    value,
+    rating: value <= good ? 'good' : value <= poor ? 'needs-improvement' : 'poor',
+    template: window.${namespace}.theme.template,
+    sectionIds: sectionIdsFor(nodes),
+    path: window.location.pathname,
+  };
+
+  reports.push(vital);
+  sinks.forEach((sink) => deliver(sink, vital));
+}
+
+function observe${t("<T extends PerformanceEntry>")}(${t(`
+  type: string,
+  callback: (entries: T[]) => void,
+  // durationThreshold is missing from TypeScript's DOM types
+  options: PerformanceObserverInit & { durationThreshold?: number } = {}
+): PerformanceObserver | null`, "type, callback, options = {})")} {
+  if (!PerformanceObserver.supportedEntryTypes?.includes(type)) return null;
+
+  const observer = new PerformanceObserver((list) => callback(list.getEntries()${t(" as T[]")}));
+  observer.observe({ type, buffered: true, ...options });
+  return observer;
+}
+
+/**
+ * Starts collecting. Reports go to the console sink (shown in development or with ?debug=webvitals), to
+ * settings.vitalsEndpoint with sendBeacon when set, and to sinks added with addVitalsSink.
+ * Later calls do nothing, so sinks and observers are never added twice.
+ */
+export function reportWebVitals() {
+  if (started || !('PerformanceObserver' in window)) return;
+  started = true;
 
-jobs:
-  build:
-    runs-on: ubuntu-latest
+  addVitalsSink(consoleSink);
+  if (window.${namespace}.settings.vitalsEndpoint) {
+    addVitalsSink(beaconSink(window.${namespace}.settings.vitalsEndpoint));
+  }
 
-    steps:
-      - name: Checkout code
-        uses: actions/checkout@v4
+  // TTFB: final as soon as the navigation entry exists
+  const [navigation] = ${t(
+    "performance.getEntriesByType('navigation') as PerformanceNavigationTiming[]",
+    "/** @type {PerformanceNavigationTiming[]} */ (\n    performance.getEntriesByType('navigation')\n  )"
+  )};
+  if (navigation) {
+    report('TTFB', Math.max(navigation.responseStart, 0));
+  }
 
-      - name: Setup ${config.packageManager === "bun" ? "Bun" : "Node.js"}
-        uses: ${config.packageManager === "bun" ? "oven-sh/setup-bun@v1" : "actions/setup-node@v4"}${config.packageManager === "bun" ? `
-        with:
-          bun-version: latest` : ""}
+  // FCP: there is only one
+  observe('paint', (entries) => {
+    const fcp = entries.find((entry) => entry.name === 'first-contentful-paint');
+    if (fcp) report('FCP', fcp.startTime);
+  });
 
-      - name: Install dependencies
-        run: ${config.packageManager} install
+  // LCP: the browser stops emitting candidates after the first input, so report then
+  let lcp${t(": LargestContentfulPaint | undefined")};
+  const handleLcp = (entries${t(": LargestContentfulPaint[]")}) => {
+    lcp = entries[entries.length - 1] || lcp;
+  };
+  const lcpObserver = observe('largest-contentful-paint', handleLcp);
+  const finalizeLcp = () => {
+    if (lcpObserver) handleLcp(lcpObserver.takeRecords()${t(" as LargestContentfulPaint[]")});
+    if (lcp) report('LCP', lcp.startTime, [lcp.element]);
+    lcpObserver?.disconnect();
+  };
+  ['keydown', 'pointerdown'].forEach((type) =>
+    addEventListener(type, finalizeLcp, { once: true, capture: true })
+  );
 
-      - name: Build Vite assets
-        run: ${config.packageManager} run build
+  // CLS: largest session window (shifts < 1s apart, window at most 5s)
+  let cls = 0;
+  let clsNodes${t(": (Node | null)[]")} = [];
+  let session = 0;
+  let sessionStart = 0;
+  let lastShift = 0;
+  let sessionNodes${t(": (Node | null)[]")} = [];
+  const clsObserver = observe${t("<LayoutShift>")}('layout-shift', (entries) => {
+    entries.forEach((entry) => {
+      if (entry.hadRecentInput) return;
+
+      if (session && entry.startTime - lastShift < 1000 && entry.startTime - sessionStart < 5000) {
+        session += entry.value;
+      } else {
+        session = entry.value;
+        sessionStart = entry.startTime;
+        sessionNodes = [];
+      }
+      lastShift = entry.startTime;
+      sessionNodes.push(...entry.sources.map((source) => source.node));
 
-      - name: Check for uncommitted changes in assets
-        run: |
-          git diff --exit-code assets/ || \\
-          (echo "Error: Built assets are out of sync. Run '${config.packageManager} run build' locally and commit the changes." && exit 1)
+      if (session > cls) {
+        cls = session;
+        clsNodes = sessionNodes;
+      }
+    });
+  });
 
-      - name: Upload assets artifact
-        if: success()
-        uses: actions/upload-artifact@v4
-        with:
-          name: built-assets
-          path: assets/
-          retention-days: 7
-`;
+  // INP: slowest interaction, ignoring one outlier per 50 interactions
+  const interactions = new Map${t("<number, PerformanceEventTiming>")}();
+  const handleEvents = (entries${t(": PerformanceEventTiming[]")}) => {
+    entries.forEach((entry) => {
+      if (!entry.interactionId) return;
+      const previous = interactions.get(entry.interactionId);
+      if (!previous || entry.duration > previous.duration) {
+        interactions.set(entry.interactionId, entry);
+      }
+    });
+  };
+  observe('event', handleEvents, { durationThreshold: 40 });
+  observe('first-input', handleEvents);
 
-  await mkdir(".github/workflows", { recursive: true });
-  await writeFile(".github/workflows/build.yml", workflow);
-  log("✓ GitHub Actions workflow created", colors.green);
-}
+  // CLS and INP keep changing until the page is hidden
+  const finalize = () => {
+    if (document.visibilityState !== 'hidden') return;
 
-async function createEntrypoints(config: SetupConfig) {
-  header("Creating Entry Point Files");
+    finalizeLcp();
+    if (clsObserver) report('CLS', cls, clsNodes);
 
-  // Create storefront.js
-  const storefrontJs = `/**
- * Storefront JavaScript Entrypoint
- */
+    const slowest = [...interactions.values()].sort((a, b) => b.duration - a.duration);
+    const inp = slowest[Math.min(slowest.length - 1, Math.floor(interactions.size / 50))];
+    if (inp) report('INP', inp.duration, [inp.target]);
+  };
+  document.addEventListener('visibilitychange', finalize);
+  addEventListener('pagehide', finalize);
+}
+`;
 
-import 'vite/modulepreload-polyfill';
-import { consoleMessage, reportWebVitals, initGlobalEvents, handleUrlParams } from '~/scripts/utils';
-import { registerSectionLifecycles } from '~/scripts/hooks/core/sectionRegistry';
+  await writeProjectFile(`frontend/scripts/webVitals.${ext}`, webVitals);
+  log(`✓ webVitals.${ext} created`, colors.green);
 
-// Initialize global object
-window.${config.projectName.replace(/-/g, "")} = window.${config.projectName.replace(/-/g, "")} || {};
+  // Section registry
+  const sectionRegistry = `/**
+ * Section Registry
+ * Runs section callbacks on page load and through the Shopify Theme Editor lifecycle
+ * https://shopify.dev/docs/storefronts/themes/best-practices/editor/integrate-sections-and-blocks
+ *
+ * registerSection(sectionId, callbacks) targets one section by its Shopify ID
+ * and returns a function that removes the callbacks again.
+ * registerSectionType(type, factory) targets every [data-section-type="<type>"]
+ * element: the factory runs once per element and returns that instance's
+ * callbacks, including onUnload for teardown.
+ */
 
-window.${config.projectName.replace(/-/g, "")}.settings = {
-  devMode: true,
-};
+import { emit } from '~/scripts/events';
+${t(`
+export interface SectionEventDetail {
+  sectionId: string;
+  blockId?: string;
+  load?: boolean;
+}
 
-window.${config.projectName.replace(/-/g, "")}.theme = {
-  shopName: window.Shopify?.shop || '${config.projectName}',
-  currency: window.Shopify?.currency?.active || 'USD',
-  currencySymbol: '$',
-  moneyFormat: window.theme?.moneyFormat || '${{amount}}',
-};
+type SectionCallback = (element: HTMLElement, detail: SectionEventDetail) => void;
+
+export interface SectionCallbacks {
+  onLoad?: SectionCallback;
+  onUnload?: SectionCallback;
+  onSelect?: SectionCallback;
+  onDeselect?: SectionCallback;
+  onReorder?: SectionCallback;
+  /** Receives the block element (the one with {{ block.shopify_attributes }}) */
+  onBlockSelect?: SectionCallback;
+  onBlockDeselect?: SectionCallback;
+}
 
-window.${config.projectName.replace(/-/g, "")}.cart = {
-  count: window.Shopify?.cart?.item_count || 0,
-  total: window.Shopify?.cart?.total_price || 0,
-};
+export type SectionInstance = Omit<SectionCallbacks, 'onLoad'>;
 
-window.${config.projectName.replace(/-/g, "")}.events = window.${config.projectName.replace(/-/g, "")}.events || new EventTarget();
+export type SectionFactory = (
+  element: HTMLElement,
+  detail: SectionEventDetail
+) => SectionInstance | void;
 
-window.${config.projectName.replace(/-/g, "")}.utils = {
-  consoleMessage,
-  handleUrlParams,
+interface MountedSection {
+  sectionId: string;
+  instance: SectionInstance;
+}
+`)}
+const sectionCallbacks = new Map${t("<string, SectionCallbacks[]>")}();
+const sectionTypes = new Map${t("<string, SectionFactory>")}();
+const mountedSections = new Map${t("<HTMLElement, MountedSection>")}();
+
+// Theme editor events and the callback each one runs
+const editorEvents${t(": Record<string, keyof SectionCallbacks>")} = {
+  'shopify:section:load': 'onLoad',
+  'shopify:section:unload': 'onUnload',
+  'shopify:section:select': 'onSelect',
+  'shopify:section:deselect': 'onDeselect',
+  'shopify:section:reorder': 'onReorder',
+  'shopify:block:select': 'onBlockSelect',
+  'shopify:block:deselect': 'onBlockDeselect',
 };
 
-window.${config.projectName.replace(/-/g, "")}.version = '1.0.0';
+let lifecyclesRegistered = false;
+let editorListenersAdded = false;
 
-consoleMessage('Store object initialized', 'info');
+export function registerSection(sectionId${t(": string")}, callbacks${t(": SectionCallbacks")}) {
+  if (!sectionCallbacks.has(sectionId)) {
+    sectionCallbacks.set(sectionId, []);
+  }
+  sectionCallbacks.get(sectionId)${t("!")}.push(callbacks);
 
-const initializeApp = () => {
-  try {
-    consoleMessage('[InitializeApp] Starting application initialization', 'info');
+  return () => {
+    const remaining = (sectionCallbacks.get(sectionId) || []).filter(
+      (entry) => entry !== callbacks
+    );
+    sectionCallbacks.set(sectionId, remaining);
+  };
+}
 
-    initGlobalEvents();
-    consoleMessage('[InitializeApp] Global events initialized', 'info');
+export function registerSectionType(type${t(": string")}, factory${t(": SectionFactory")}) {
+  sectionTypes.set(type, factory);
 
-    registerSectionLifecycles();
-    consoleMessage('[InitializeApp] Section lifecycles registered', 'info');
+  // Registered after page load (e.g. from a lazily imported module): mount right away
+  if (lifecyclesRegistered) {
+    mountSections(document);
+  }
+}
 
-    handleUrlParams();
+function runCallbacks(${t(`
+  hook: keyof SectionCallbacks,
+  element: HTMLElement,
+  detail: SectionEventDetail
+`, "hook, element, detail")}) {
+  sectionCallbacks
+    .get(detail.sectionId)
+    ?.forEach((callbacks) => callbacks[hook]?.(element, detail));
+}
 
-    if (window.Shopify?.cart) {
-      window.${config.projectName.replace(/-/g, "")}.cart.count = window.Shopify.cart.item_count || 0;
-      window.${config.projectName.replace(/-/g, "")}.cart.total = window.Shopify.cart.total_price || 0;
-    }
+function getSectionId(element${t(": HTMLElement")})${t(": string")} {
+  return (
+    element.dataset.sectionId ||
+    element.closest('.shopify-section')?.id.replace(/^shopify-section-/, '') ||
+    ''
+  );
+}
 
-    consoleMessage('[InitializeApp] Application initialization complete', 'info', {
-      version: window.${config.projectName.replace(/-/g, "")}.version,
-      devMode: window.${config.projectName.replace(/-/g, "")}.settings.devMode,
-      cartCount: window.${config.projectName.replace(/-/g, "")}.cart.count
-    });
-  } catch (error) {
-    consoleMessage('[InitializeApp] Error during application initialization', 'error', error);
+// querySelectorAll that also includes root itself when it matches
+function queryWithRoot(root${t(": ParentNode")}, selector${t(": string")})${t(": HTMLElement[]")} {
+  const elements = Array.from(root.querySelectorAll${t("<HTMLElement>")}(selector));
+  if (root instanceof HTMLElement && root.matches(selector)) {
+    elements.unshift(root);
   }
-};
+  return elements;
+}
 
-window.addEventListener('DOMContentLoaded', initializeApp);
-window.addEventListener('load', reportWebVitals);
+function mountSections(root${t(": ParentNode")}, detail${t(": Partial<SectionEventDetail>")} = {}) {
+  queryWithRoot(root, '[data-section-type]').forEach((element) => {
+    const factory = sectionTypes.get(element.dataset.sectionType || '');
+    if (!factory || mountedSections.has(element)) return;
 
-export default window.${config.projectName.replace(/-/g, "")};
-`;
+    const sectionId = getSectionId(element);
+    const instance = factory(element, { ...detail, sectionId }) || {};
+    mountedSections.set(element, { sectionId, instance });
+  });
+}
 
-  await writeFile("frontend/entrypoints/storefront.js", storefrontJs);
-  log("✓ storefront.js created", colors.green);
+function unmountSections(shouldUnmount${t(": (element: HTMLElement, sectionId: string) => boolean")}) {
+  mountedSections.forEach(({ sectionId, instance }, element) => {
+    if (!shouldUnmount(element, sectionId)) return;
+    instance.onUnload?.(element, { sectionId });
+    mountedSections.delete(element);
+  });
+}
 
-  // Create custom_styling.css or .scss
-  const fileExtension = config.stylingApproach === "scss" ? "scss" : "css";
-  const fileName = `frontend/entrypoints/custom_styling.${fileExtension}`;
+function forwardToInstances(${t(`
+  hook: keyof SectionInstance,
+  blockElement: HTMLElement | null,
+  detail: SectionEventDetail
+`, "hook, blockElement, detail")}) {
+  mountedSections.forEach(({ sectionId, instance }, element) => {
+    if (sectionId === detail.sectionId) {
+      instance[hook]?.(blockElement || element, detail);
+    }
+  });
+}
 
-  let customStyles = "";
+// Section events target Shopify's wrapper (#shopify-section-<id>); prefer the
+// [data-section-id] element inside it so callbacks get the same element as on page load
+function findSectionElement(target${t(": HTMLElement")}, sectionId${t(": string")})${t(": HTMLElement")} {
+  if (target.dataset.sectionId === sectionId) return target;
+  const selector = \`[data-section-id="\${CSS.escape(sectionId)}"]\`;
+  return target.querySelector${t("<HTMLElement>")}(selector) || target;
+}
 
-  if (config.stylingApproach === "scss") {
-    // SCSS with tokens
-    customStyles = `/**
- * Custom Styling Entrypoint (SCSS)
+/**
+ * Runs onLoad for every [data-section-id] element and mounts every
+ * [data-section-type] element under root. In the theme editor it also
+ * listens (once) for section and block events: a reloaded section has its
+ * old instances destroyed and fresh ones mounted.
  */
+export function registerSectionLifecycles(root${t(": ParentNode")} = document) {
+  lifecyclesRegistered = true;
 
-// Design Tokens
-$colors: (
-  'primary': rgb(var(--color-button)),
-  'secondary': rgb(var(--color-accent)),
-  'text-primary': #1a1a1a,
-  'text-secondary': #666,
-  'surface': #ffffff,
-  'border': #e5e5e5,
-);
+  queryWithRoot(root, '[data-section-id]').forEach((section) => {
+    runCallbacks('onLoad', section, { sectionId: section.dataset.sectionId${t(" as string")} });
+  });
+  mountSections(root);
 
-$spacing: (
-  'xs': 0.25rem,
-  'sm': 0.5rem,
-  'base': 1rem,
-  'lg': 2rem,
-  'xl': 4rem,
-);
+  if (!window.Shopify?.designMode || editorListenersAdded) return;
+  editorListenersAdded = true;
 
-$breakpoints: (
-  'sm': 640px,
-  'md': 768px,
-  'lg': 1024px,
-  'xl': 1280px,
-  '2xl': 1536px,
-);
+  Object.entries(editorEvents).forEach(([type, hook]) => {
+    document.addEventListener(type, (event) => {
+      const { detail, target } = ${t("event as CustomEvent<SectionEventDetail>", "/** @type {CustomEvent} */ (event)")};
+      const element = ${t("target as HTMLElement", "/** @type {HTMLElement} */ (target)")};
+      const isBlockEvent = type.startsWith('shopify:block:');
 
-$transitions: (
-  'fast': 150ms ease,
-  'base': 250ms ease,
-  'slow': 400ms ease,
-);
+      runCallbacks(
+        hook,
+        isBlockEvent ? element : findSectionElement(element, detail.sectionId),
+        detail
+      );
 
-// Centralized Media Query Mixins
-@mixin respond-to($breakpoint) {
-  @if map-has-key($breakpoints, $breakpoint) {
-    @media (min-width: map-get($breakpoints, $breakpoint)) {
-      @content;
-    }
-  } @else {
-    @warn "Breakpoint #{$breakpoint} not found in $breakpoints map.";
-  }
+      if (hook === 'onLoad') {
+        // Destroy anything left from before the reload, then mount the new DOM
+        unmountSections((_element, sectionId) => sectionId === detail.sectionId);
+        mountSections(element, detail);
+        emit('section:loaded', { sectionId: detail.sectionId });
+      } else if (hook === 'onUnload') {
+        unmountSections((_element, sectionId) => sectionId === detail.sectionId);
+      } else {
+        forwardToInstances(hook, isBlockEvent ? element : null, detail);
+      }
+    });
+  });
 }
 
-// Helper functions
-@function color($key) {
-  @return map-get($colors, $key);
+/**
+ * Runs onUnload for every [data-section-id] element and destroys every
+ * mounted instance under root, e.g. before its markup is replaced
+ */
+export function unregisterSectionLifecycles(root${t(": HTMLElement")}) {
+  queryWithRoot(root, '[data-section-id]').forEach((section) => {
+    runCallbacks('onUnload', section, { sectionId: section.dataset.sectionId${t(" as string")} });
+  });
+  unmountSections((element) => root.contains(element));
 }
+`;
 
-@function spacing($key) {
-  @return map-get($spacing, $key);
-}
+  await writeProjectFile(`frontend/scripts/hooks/core/sectionRegistry.${ext}`, sectionRegistry);
+  log(`✓ sectionRegistry.${ext} created`, colors.green);
 
-@function transition($key) {
-  @return map-get($transitions, $key);
-}
+  // Section Rendering API helper
+  const sectionRenderer = `/**
+ * Section Renderer
+ * Re-renders sections through the Section Rendering API and swaps them into the page
+ * https://shopify.dev/docs/api/section-rendering
+ */
 
-// CSS Custom Properties for runtime theming
-:root {
-  --color-primary: #{color('primary')};
-  --color-secondary: #{color('secondary')};
-  --spacing-base: #{spacing('base')};
-  --spacing-small: #{spacing('sm')};
-  --spacing-large: #{spacing('lg')};
-  --transition-base: #{transition('base')};
-  --border-radius: 4px;
+import { emit } from '~/scripts/events';
+import { createLogger } from '~/scripts/logger';
+import {
+  registerSectionLifecycles,
+  unregisterSectionLifecycles,
+} from '~/scripts/hooks/core/sectionRegistry';
+${t(`
+/** Section ID → rendered HTML; null for sections that failed to render */
+export type RenderedSections = Record<string, string | null>;
+
+interface PendingRender {
+  key: string;
+  sectionIds: string[];
+  controller: AbortController;
+  promise: Promise<void>;
 }
+`)}
+const logger = createLogger('Sections');
 
-// Utility Classes
-.visually-hidden {
-  position: absolute !important;
-  overflow: hidden;
-  width: 1px;
-  height: 1px;
-  margin: -1px;
-  padding: 0;
-  border: 0;
-  clip: rect(0 0 0 0);
-  word-wrap: normal !important;
-}
+// The Section Rendering API renders at most 5 sections per request
+const maxSectionsPerRequest = 5;
 
-// Import component styles
-// @import '../styles/product-card';
-// @import '../styles/cart-drawer';
-`;
+// In-flight renders by section ID; a newer render of a section replaces the entry
+const pendingRenders = new Map${t("<string, PendingRender>")}();
+
+async function fetchBatch(${t(`
+  sectionIds: string[],
+  url: string,
+  signal: AbortSignal
+): Promise<RenderedSections>`, "sectionIds, url, signal)")} {
+  const requestUrl = new URL(url, window.location.origin);
+
+  if (sectionIds.length === 1) {
+    requestUrl.searchParams.set('section_id', sectionIds[0]);
   } else {
-    // Plain CSS with centralized media queries via custom properties
-    customStyles = `/**
- * Custom Styling Entrypoint
- */
+    requestUrl.searchParams.set('sections', sectionIds.join(','));
+  }
 
-/* Design Tokens - CSS Custom Properties */
-:root {
-  /* Colors */
-  --color-primary: rgb(var(--color-button));
-  --color-secondary: rgb(var(--color-accent));
-  --color-text-primary: #1a1a1a;
-  --color-text-secondary: #666;
-  --color-surface: #ffffff;
-  --color-border: #e5e5e5;
+  const response = await fetch(requestUrl, { signal });
+  if (!response.ok) {
+    throw new Error(\`Rendering \${sectionIds.join(', ')} failed with status \${response.status}\`);
+  }
 
-  /* Spacing */
-  --spacing-xs: 0.25rem;
-  --spacing-sm: 0.5rem;
-  --spacing-base: 1rem;
-  --spacing-lg: 2rem;
-  --spacing-xl: 4rem;
+  // section_id returns the section's HTML, sections a JSON object keyed by ID
+  return sectionIds.length === 1 ? { [sectionIds[0]]: await response.text() } : response.json();
+}
 
-  /* Transitions */
-  --transition-fast: 150ms ease;
-  --transition-base: 250ms ease;
-  --transition-slow: 400ms ease;
+async function fetchSections(${t(`
+  sectionIds: string[],
+  url: string,
+  signal: AbortSignal
+): Promise<RenderedSections>`, "sectionIds, url, signal)")} {
+  const batches${t(": string[][]")} = [];
+  for (let index = 0; index < sectionIds.length; index += maxSectionsPerRequest) {
+    batches.push(sectionIds.slice(index, index + maxSectionsPerRequest));
+  }
 
-  /* Borders */
-  --border-radius: 4px;
-  --border-width: 1px;
+  const responses = await Promise.all(batches.map((batch) => fetchBatch(batch, url, signal)));
+  return Object.assign({}, ...responses);
+}
 
-  /* Breakpoints (for use with min-width media queries) */
-  --breakpoint-sm: 640px;
-  --breakpoint-md: 768px;
-  --breakpoint-lg: 1024px;
-  --breakpoint-xl: 1280px;
-  --breakpoint-2xl: 1536px;
+// The sections a render still swaps in, i.e. those no newer render took over
+function ownedSections(pending${t(": PendingRender")})${t(": string[]")} {
+  return pending.sectionIds.filter((sectionId) => pendingRenders.get(sectionId) === pending);
 }
 
-/* Utility Classes */
-.visually-hidden {
-  position: absolute !important;
-  overflow: hidden;
-  width: 1px;
-  height: 1px;
-  margin: -1px;
-  padding: 0;
-  border: 0;
-  clip: rect(0 0 0 0);
-  word-wrap: normal !important;
+function findSection(root${t(": ParentNode")}, sectionId${t(": string")})${t(": HTMLElement | null")} {
+  const id = CSS.escape(sectionId);
+  const marked = root.querySelector${t("<HTMLElement>")}(\`[data-section-id="\${id}"]\`);
+  return marked || root.querySelector${t("<HTMLElement>")}(\`#shopify-section-\${id}\`);
+}
+
+/**
+ * Swaps rendered HTML into the matching [data-section-id] elements, tearing down
+ * the old section first. Also accepts the \`sections\` object that cart/add.js,
+ * cart/change.js and cart/update.js return when asked for sections.
+ */
+export function replaceSections(sections${t(": RenderedSections")}) {
+  Object.entries(sections).forEach(([sectionId, html]) => {
+    if (html === null) return;
+
+    const current = findSection(document, sectionId);
+    const rendered = findSection(new DOMParser().parseFromString(html, 'text/html'), sectionId);
+    if (!current || !rendered) {
+      logger.warn(\`Section \${sectionId} not found\`);
+      return;
+    }
+
+    const next = document.importNode(rendered, true);
+    unregisterSectionLifecycles(current);
+    current.replaceWith(next);
+    registerSectionLifecycles(next);
+    emit('section:loaded', { sectionId });
+  });
 }
 
-/*
-  Centralized Media Query Guide
-  ==============================
-  Always use mobile-first approach with min-width:
+/**
+ * Re-renders sections for a URL (the current page by default) and swaps them in.
+ * More than 5 sections, the API's limit, are fetched in several requests. A repeat
+ * of an in-flight request shares it. A newer request takes over the sections it
+ * shares with older ones: an older request left with none of its own is cancelled
+ * and its promise resolves without changing the page, any other still swaps in
+ * the rest of its sections.
+ */
+export function renderSections(
+  sectionIds${t(": string[]")},
+  url${t(": string")} = window.location.pathname + window.location.search
+)${t(": Promise<void>")} {
+  const ids = [...new Set(sectionIds)];
+  if (ids.length === 0) return Promise.resolve();
+
+  const key = \`\${url}|\${[...ids].sort().join(',')}\`;
+  const existing = pendingRenders.get(ids[0]);
+  if (existing?.key === key) return existing.promise;
+
+  new Set(ids.flatMap((sectionId) => pendingRenders.get(sectionId) ?? [])).forEach((older) => {
+    const covered = ownedSections(older).every((sectionId) => ids.includes(sectionId));
+    if (covered) older.controller.abort();
+  });
+
+  const controller = new AbortController();
+  const pending${t(": PendingRender")} = { key, sectionIds: ids, controller, promise: Promise.resolve() };
+  pending.promise = fetchSections(ids, url, controller.signal)
+    .then((sections) => {
+      const owned = ownedSections(pending);
+      const entries = Object.entries(sections).filter(([sectionId]) => owned.includes(sectionId));
+      replaceSections(Object.fromEntries(entries));
+    })
+    .catch((error) => {
+      if (!controller.signal.aborted) throw error;
+    })
+    .finally(() => {
+      ownedSections(pending).forEach((sectionId) => pendingRenders.delete(sectionId));
+    });
 
-  Mobile:   Base styles (no media query)
-  Tablet:   @media (min-width: 768px)  { }
-  Desktop:  @media (min-width: 1024px) { }
-  Wide:     @media (min-width: 1280px) { }
+  ids.forEach((sectionId) => pendingRenders.set(sectionId, pending));
+  return pending.promise;
+}
 
-  Example:
-  .my-component {
-    padding: var(--spacing-sm);        // Mobile
+export function renderSection(sectionId${t(": string")}, url${t("?: string")})${t(": Promise<void>")} {
+  return renderSections([sectionId], url);
+}
+`;
 
-    @media (min-width: 768px) {
-      padding: var(--spacing-base);    // Tablet+
-    }
+  await writeProjectFile(`frontend/scripts/sectionRenderer.${ext}`, sectionRenderer);
+  log(`✓ sectionRenderer.${ext} created`, colors.green);
 
-    @media (min-width: 1024px) {
-      padding: var(--spacing-lg);      // Desktop+
-    }
-  }
-*/
+  const sectionRendererTest = `/**
+ * Section Renderer Tests
+ * Runs renderSections against a fake Section Rendering API in which older
+ * requests answer more slowly than newer ones
+ */
 
-/* Import component styles */
-/* @import './styles/product-card.css'; */
-/* @import './styles/cart-drawer.css'; */
-`;
-  }
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { renderSection, renderSections } from '~/scripts/sectionRenderer';
+${t(`import type { ThemeNamespace } from '~/scripts/types';
+`)}
+const sectionIds = ['a', 'b', 'c', 'd', 'e', 'f', 'g'];
+
+// Section IDs asked for, per request
+let requests${t(": string[][]")} = [];
+
+async function fakeFetch(input${t(": RequestInfo | URL")}, init${t(": RequestInit")} = {}) {
+  const url = new URL(String(input));
+  const ids =
+    url.searchParams.get('section_id')?.split(',') ??
+    url.searchParams.get('sections')?.split(',') ??
+    [];
+  requests.push(ids);
+  const request = requests.length;
+
+  await new Promise((resolve, reject) => {
+    const timer = setTimeout(resolve, Math.max(0, 50 - request * 10));
+    init.signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(new DOMException('The request was aborted', 'AbortError'));
+    });
+  });
 
-  await writeFile(fileName, customStyles);
-  log(`✓ custom_styling.${fileExtension} created`, colors.green);
+  const html = (id${t(": string")}) => \`<div data-section-id="\${id}">\${id} from request \${request}</div>\`;
+  const body =
+    ids.length === 1
+      ? html(ids[0])
+      : JSON.stringify(Object.fromEntries(ids.map((id) => [id, html(id)])));
+  return new Response(body);
+}
 
-  if (config.stylingApproach === "scss") {
-    log("  ✓ SCSS tokens and mixins configured", colors.green);
-  } else {
-    log("  ✓ Centralized media query guide added", colors.green);
-  }
+function content(sectionId${t(": string")}) {
+  return document.querySelector(\`[data-section-id="\${sectionId}"]\`)?.textContent;
 }
 
-async function createShopifyThemeToml(config: SetupConfig) {
-  if (config.tomlApproach === "skip" || config.tomlApproach === "cli") {
-    // Create only the example file for reference
-    header("Creating example.shopify.theme.toml");
+beforeEach(() => {
+  requests = [];
+  document.body.innerHTML = sectionIds
+    .map((id) => \`<div data-section-id="\${id}">\${id}</div>\`)
+    .join('');
+  window.${namespace} = ${t("", "/** @type {import('~/scripts/types').ThemeNamespace} */ (")}{
+    events: new EventTarget(),
+  }${t(" as ThemeNamespace", ")")};
+  vi.stubGlobal('fetch', fakeFetch);
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('renderSections', () => {
+  it('swaps the rendered sections into the page', async () => {
+    await renderSections(['a', 'b']);
+
+    expect(requests).toEqual([['a', 'b']]);
+    expect([content('a'), content('b'), content('c')]).toEqual([
+      'a from request 1',
+      'b from request 1',
+      'c',
+    ]);
+  });
 
-    const exampleToml = `# Example Shopify Theme Configuration
-# Copy this file to shopify.theme.toml and update with your store details
+  it('shares an identical request that is still in flight', async () => {
+    const first = renderSections(['a', 'b']);
+    const second = renderSections(['b', 'a']);
 
-[environments.development]
-store = "your-store.myshopify.com"
-theme = "your-theme-id"
-ignore = [".shopifyignore"]
+    expect(second).toBe(first);
+    await second;
+    expect(requests).toHaveLength(1);
+  });
 
-# Additional environment examples:
-# [environments.staging]
-# store = "your-store-staging.myshopify.com"
-# theme = "staging-theme-id"
+  it('cancels an older request whose sections a newer one covers', async () => {
+    const older = renderSection('a');
+    const newer = renderSections(['a', 'b']);
 
-# [environments.production]
-# store = "your-store.myshopify.com"
-# theme = "live-theme-id"
+    await expect(older).resolves.toBeUndefined();
+    await newer;
+    expect([content('a'), content('b')]).toEqual(['a from request 2', 'b from request 2']);
+  });
+
+  it('lets an older request finish the sections a newer one does not cover', async () => {
+    const older = renderSections(['a', 'b']);
+    const newer = renderSection('a');
+
+    await Promise.all([older, newer]);
+    // The newer response for a arrives first and isn't overwritten by the older one
+    expect([content('a'), content('b')]).toEqual(['a from request 2', 'b from request 1']);
+  });
+
+  it('splits more than 5 sections into several requests', async () => {
+    await renderSections(sectionIds);
+
+    expect(requests).toEqual([sectionIds.slice(0, 5), sectionIds.slice(5)]);
+    expect(sectionIds.map(content)).toEqual(
+      sectionIds.map((id) => \`\${id} from request \${id < 'f' ? 1 : 2}\`)
+    );
+  });
+
+  it('does nothing without section IDs', async () => {
+    await renderSections([]);
+
+    expect(requests).toEqual([]);
+  });
+});
 `;
 
-    await writeFile("example.shopify.theme.toml", exampleToml);
-    log("✓ example.shopify.theme.toml created for reference", colors.green);
+  await writeProjectFile(`frontend/scripts/sectionRenderer.test.${ext}`, sectionRendererTest);
+  log(`✓ sectionRenderer.test.${ext} created`, colors.green);
 
-    if (config.tomlApproach === "cli") {
-      log("  Using CLI authentication - run 'shopify auth login' before development", colors.yellow);
-    } else {
-      log("  Copy this to shopify.theme.toml when ready to configure", colors.yellow);
-    }
-    return;
-  }
+  // Typed window.<namespace> object; a .d.ts in JavaScript projects, where checkJs reads it
+  const typesFile = config.jsApproach === "typescript" ? "types.ts" : "types.d.ts";
+  const types = `/**
+ * Theme Namespace Types
+ * Shape of window.${namespace}, set up in frontend/entrypoints/storefront.${ext}
+ */
 
-  // Create actual shopify.theme.toml file
-  header("Creating shopify.theme.toml");
+import type {
+  consoleMessage,
+  formatMoney,
+  handleUrlParams,
+  registerUrlParam,
+} from '~/scripts/utils';
+import type { dumpLogs } from '~/scripts/logger';
+
+export interface ThemeSettings {
+  devMode: boolean;
+  /** Vite mode of the build: development, staging or production */
+  environment: string;
+  /** Short git SHA of the build */
+  commit: string;
+  vitalsEndpoint?: string;
+}
 
-  const storeUrl = config.storeUrl || "your-store.myshopify.com";
-  const themeId = config.themeId || "your-theme-id";
+export interface ThemeInfo {
+  shopName: string;
+  currency: string;
+  template: string;
+  moneyFormat: string;
+}
 
-  const themeToml = `# Shopify Theme Configuration
-# This file contains your store credentials - it will be added to .gitignore
+export interface CartState {
+  count: number;
+  total: number;
+}
 
-[environments.${config.shopifyEnvironment}]
-store = "${storeUrl}"
-theme = "${themeId}"
-ignore = [".shopifyignore"]
+export interface ThemeUtils {
+  consoleMessage: typeof consoleMessage;
+  /** Recent log entries as text, for bug reports: copy(window.${namespace}.utils.dumpLogs()) */
+  dumpLogs: typeof dumpLogs;
+  formatMoney: typeof formatMoney;
+  handleUrlParams: typeof handleUrlParams;
+  registerUrlParam: typeof registerUrlParam;
+}
 
-# Additional environment examples (uncomment and configure as needed):
-# [environments.staging]
-# store = "${storeUrl}"
-# theme = "staging-theme-id"
-# ignore = [".shopifyignore"]
+export interface ThemeNamespace {
+  settings: ThemeSettings;
+  theme: ThemeInfo;
+  cart: CartState;
+  events: EventTarget;
+  utils: ThemeUtils;
+  version: string;
+}
 
-# [environments.production]
-# store = "${storeUrl}"
-# theme = "live-theme-id"
-# ignore = [".shopifyignore"]
+declare global {
+  interface Window {
+    ${namespace}: ThemeNamespace;
+  }
+}
 `;
 
-  await writeFile("shopify.theme.toml", themeToml);
-  log("✓ shopify.theme.toml created", colors.green);
-  log(`  Store: ${storeUrl}`, colors.cyan);
-  log(`  Theme: ${themeId}`, colors.cyan);
-  log(`  Environment: ${config.shopifyEnvironment}`, colors.cyan);
+  await writeProjectFile(`frontend/scripts/${typesFile}`, types);
+  log(`✓ ${typesFile} created`, colors.green);
 }
 
-async function setupLinting(config: SetupConfig) {
-  if (config.lintingSetup === "skip") {
-    log("\nSkipping linting setup", colors.yellow);
-    return;
-  }
+async function createComponents(config: SetupConfig) {
+  header("Creating Component Files");
 
-  header("Setting Up Linting");
+  const namespace = projectNames(config.projectName).identifier;
+  const ext = scriptExtension(config);
+  const t = typed(config);
 
-  if (config.lintingSetup === "eslint-prettier") {
-    // Install ESLint and Prettier dependencies
-    const deps = [
-      "eslint",
-      "prettier",
-      "eslint-config-prettier",
-      "eslint-plugin-prettier",
-      "@eslint/js",
-    ];
+  // Custom element base class
+  const baseComponent = `/**
+ * Base Component
+ * Base class for custom elements: data-ref lookups, events on window.${namespace}.events,
+ * listeners removed on disconnect, and theme editor select/deselect hooks
+ */
 
-    if (config.jsApproach === "typescript") {
-      deps.push("@typescript-eslint/eslint-plugin", "@typescript-eslint/parser");
+import { emit, on } from '~/scripts/events';
+import { registerSection } from '~/scripts/hooks/core/sectionRegistry';
+${t("import type { ThemeEventHandler, ThemeEventMap, ThemeEventName } from '~/scripts/events';\nimport type { SectionEventDetail } from '~/scripts/hooks/core/sectionRegistry';\n")}
+export function defineComponent(name${t(": string")}, component${t(": CustomElementConstructor")}) {
+  // Vite HMR re-runs modules; defining the same tag twice throws
+  if (!customElements.get(name)) {
+    customElements.define(name, component);
+  }
+}
+
+export class BaseComponent extends HTMLElement {
+  ${t("private ")}abortController${t(": AbortController | null")} = null;
+  ${t("private ")}unregisterSection${t(": (() => void) | null")} = null;
+
+  connectedCallback() {
+    this.abortController = new AbortController();
+
+    // Shopify replaces a section's markup when the theme editor reloads it,
+    // which disconnects this element and connects a fresh one
+    const sectionId = this.closest('.shopify-section')?.id.replace(/^shopify-section-/, '');
+    if (window.Shopify?.designMode && sectionId) {
+      this.unregisterSection = registerSection(sectionId, {
+        onSelect: (_element, detail) => this.sectionSelect(detail),
+        onDeselect: (_element, detail) => this.sectionDeselect(detail),
+        onBlockSelect: (block, detail) => this.contains(block) && this.blockSelect(block, detail),
+        onBlockDeselect: (block, detail) =>
+          this.contains(block) && this.blockDeselect(block, detail),
+      });
     }
 
-    log("Installing ESLint and Prettier...", colors.cyan);
+    this.connected();
+  }
 
-    try {
-      if (config.packageManager === "bun") {
-        await $`bun add -d ${deps}`;
-      } else if (config.packageManager === "npm") {
-        await $`npm install --save-dev ${deps}`;
-      } else if (config.packageManager === "pnpm") {
-        await $`pnpm add -D ${deps}`;
-      } else {
-        await $`yarn add -D ${deps}`;
-      }
-      log("✓ Linting dependencies installed", colors.green);
-    } catch (error) {
-      log("✗ Error installing linting dependencies", colors.red);
-      console.error(error);
-      return;
-    }
+  disconnectedCallback() {
+    this.abortController?.abort();
+    this.abortController = null;
+    this.unregisterSection?.();
+    this.unregisterSection = null;
 
-    // Create ESLint config
-    const eslintConfig = config.jsApproach === "typescript"
-      ? `import js from "@eslint/js";
-import tseslint from "@typescript-eslint/eslint-plugin";
-import tsparser from "@typescript-eslint/parser";
-import prettier from "eslint-plugin-prettier";
+    this.disconnected();
+  }
 
-export default [
-  js.configs.recommended,
-  {
-    files: ["frontend/**/*.{js,ts}"],
-    languageOptions: {
-      parser: tsparser,
-      ecmaVersion: 2022,
-      sourceType: "module",
-    },
-    plugins: {
-      "@typescript-eslint": tseslint,
-      prettier,
-    },
-    rules: {
-      "prettier/prettier": "error",
-      "no-unused-vars": "off",
-      "@typescript-eslint/no-unused-vars": ["error", { argsIgnorePattern: "^_" }],
-      "no-console": ["warn", { allow: ["warn", "error"] }],
-    },
-  },
-  {
-    ignores: ["assets/**", "node_modules/**", "*.config.js"],
-  },
-];
-`
-      : `import js from "@eslint/js";
-import prettier from "eslint-plugin-prettier";
+  /** Runs when the element is added to the page; set up listeners here */
+  ${t("protected ")}connected() {}
 
-export default [
-  js.configs.recommended,
-  {
-    files: ["frontend/**/*.js"],
-    languageOptions: {
-      ecmaVersion: 2022,
-      sourceType: "module",
-    },
-    plugins: {
-      prettier,
-    },
-    rules: {
-      "prettier/prettier": "error",
-      "no-unused-vars": ["error", { argsIgnorePattern: "^_" }],
-      "no-console": ["warn", { allow: ["warn", "error"] }],
-    },
-  },
-  {
-    ignores: ["assets/**", "node_modules/**", "*.config.js"],
-  },
-];
-`;
+  /** Runs when the element is removed; listeners added with listen() are already gone */
+  ${t("protected ")}disconnected() {}
 
-    await writeFile("eslint.config.js", eslintConfig);
-    log("✓ eslint.config.js created", colors.green);
+  // Theme editor hooks; block hooks only run for blocks inside this element
+  ${t("protected ")}sectionSelect(_detail${t(": SectionEventDetail")}) {}
+  ${t("protected ")}sectionDeselect(_detail${t(": SectionEventDetail")}) {}
+  ${t("protected ")}blockSelect(_block${t(": HTMLElement")}, _detail${t(": SectionEventDetail")}) {}
+  ${t("protected ")}blockDeselect(_block${t(": HTMLElement")}, _detail${t(": SectionEventDetail")}) {}
 
-    // Create Prettier config
-    const prettierConfig = `{
-  "semi": true,
-  "singleQuote": true,
-  "tabWidth": 2,
-  "trailingComma": "es5",
-  "printWidth": 100,
-  "bracketSpacing": true,
-  "arrowParens": "always"
-}
-`;
-    await writeFile(".prettierrc", prettierConfig);
-    log("✓ .prettierrc created", colors.green);
+  ${t("", "/** @returns {HTMLElement | null} */\n  ")}${t("protected ")}ref${t("<T extends HTMLElement = HTMLElement>")}(name${t(": string")})${t(": T | null")} {
+    return this.querySelector${t("<T>")}(\`[data-ref="\${name}"]\`);
+  }
 
-    // Create Prettier ignore
-    const prettierIgnore = `# Prettier ignore
-assets/
-node_modules/
-*.liquid
-*.json
-*.md
-bun.lockb
-`;
-    await writeFile(".prettierignore", prettierIgnore);
-    log("✓ .prettierignore created", colors.green);
+  ${t("", "/** @returns {HTMLElement[]} */\n  ")}${t("protected ")}refAll${t("<T extends HTMLElement = HTMLElement>")}(name${t(": string")})${t(": T[]")} {
+    return Array.from(this.querySelectorAll${t("<T>")}(\`[data-ref="\${name}"]\`));
+  }
 
-  } else if (config.lintingSetup === "theme-check") {
-    log("Theme Check is already included via @shopify/theme-check-node", colors.green);
+  /** addEventListener that is undone when the element disconnects */
+  ${t("protected ")}listen${t("<E extends Event = Event>")}(${t(`
+    target: EventTarget,
+    type: string,
+    handler: (event: E) => void,
+    options: AddEventListenerOptions = {}
+  `, "target, type, handler, options = {}")}) {
+    target.addEventListener(type, handler${t(" as EventListener")}, {
+      ...options,
+      signal: this.abortController?.signal,
+    });
+  }
 
-    // Create theme check config
-    const themeCheckConfig = `# Theme Check Configuration
-# https://shopify.dev/docs/themes/tools/theme-check
+  ${t("protected ")}emit${t("<K extends ThemeEventName>")}(type${t(": K")}, detail${t(": ThemeEventMap[K]")}) {
+    emit(type, detail);
+  }
 
-root: .
-extends: :theme-app-extension
+  /** Listens on window.${namespace}.events until the element disconnects */
+  ${t("protected ")}on${t("<K extends ThemeEventName>")}(type${t(": K")}, handler${t(": ThemeEventHandler<K>")}) {
+    this.abortController?.signal.addEventListener('abort', on(type, handler));
+  }
+}
+`;
 
-# Ignore patterns
-ignore:
-  - node_modules/**
-  - frontend/**
+  await writeProjectFile(`frontend/scripts/components/baseComponent.${ext}`, baseComponent);
+  log(`✓ baseComponent.${ext} created`, colors.green);
 
-# Custom rules
-MatchingTranslations:
-  enabled: true
+  // Example component
+  const disclosureToggle = `/**
+ * Disclosure Toggle
+ * Shows and hides a panel. Opens in the theme editor while one of its blocks is selected.
+ *
+ * <disclosure-toggle>
+ *   <button type="button" data-ref="trigger" aria-expanded="false">Details</button>
+ *   <div data-ref="panel" hidden>...</div>
+ * </disclosure-toggle>
+ */
 
-RemoteAsset:
-  enabled: true
-  severity: suggestion
-`;
-    await writeFile(".theme-check.yml", themeCheckConfig);
-    log("✓ .theme-check.yml created", colors.green);
+import { BaseComponent } from '~/scripts/components/baseComponent';
+${t(`
+declare module '~/scripts/events' {
+  interface ThemeEventMap {
+    'disclosure:toggle': { id: string; open: boolean };
+  }
+}
+`)}
+export class DisclosureToggle extends BaseComponent {
+  ${t("protected ")}connected() {
+    const trigger = this.ref('trigger');
+    if (trigger) {
+      this.listen(trigger, 'click', () => this.toggle());
+    }
+  }
+
+  ${t("protected ")}blockSelect() {
+    this.toggle(true);
   }
-}
 
-async function setupGitHooks(config: SetupConfig) {
-  if (!config.gitHooks) {
-    log("\nSkipping Git hooks setup", colors.yellow);
-    return;
+  ${t("protected ")}blockDeselect() {
+    this.toggle(false);
   }
 
-  header("Setting Up Git Hooks");
+  toggle(open = Boolean(this.ref('panel')?.hidden)) {
+    const panel = this.ref('panel');
+    if (!panel || panel.hidden === !open) return;
 
-  // Install husky and lint-staged
-  const deps = ["husky", "lint-staged"];
+    panel.hidden = !open;
+    this.ref('trigger')?.setAttribute('aria-expanded', String(open));
+    this.emit('disclosure:toggle', { id: this.id, open });
+  }
+}
+`;
 
-  log("Installing husky and lint-staged...", colors.cyan);
+  await writeProjectFile(`frontend/scripts/components/disclosureToggle.${ext}`, disclosureToggle);
+  log(`✓ disclosureToggle.${ext} created`, colors.green);
+}
 
-  try {
-    if (config.packageManager === "bun") {
-      await $`bun add -d ${deps}`;
-    } else if (config.packageManager === "npm") {
-      await $`npm install --save-dev ${deps}`;
-    } else if (config.packageManager === "pnpm") {
-      await $`pnpm add -D ${deps}`;
-    } else {
-      await $`yarn add -D ${deps}`;
-    }
-    log("✓ Git hooks dependencies installed", colors.green);
-  } catch (error) {
-    log("✗ Error installing Git hooks dependencies", colors.red);
-    console.error(error);
-    return;
+async function createTemplateBundles(config: SetupConfig): Promise<StepResult | void> {
+  if (config.templateBundles.length === 0) {
+    return stepSkipped("no template bundles selected");
   }
 
-  // Initialize husky
-  try {
-    await $`npx husky init`;
-    log("✓ Husky initialized", colors.green);
-  } catch (error) {
-    log("⚠️ Husky init skipped (may need git init first)", colors.yellow);
-  }
+  header("Creating Template Bundles");
 
-  // Create pre-commit hook
-  const preCommitHook = config.lintingSetup === "eslint-prettier"
-    ? `#!/usr/bin/env sh
-. "$(dirname -- "$0")/_/husky.sh"
+  const ext = scriptExtension(config);
 
-npx lint-staged
-`
-    : `#!/usr/bin/env sh
-. "$(dirname -- "$0")/_/husky.sh"
+  await makeDirectory("frontend/templates");
+  await makeDirectory("snippets");
 
-# Run theme check on liquid files
-npx shopify theme check --fail-level error
+  for (const bundle of config.templateBundles) {
+    const templateNames = templateBundleOptions[bundle];
+    const entrypoint = `/**
+ * ${bundle[0].toUpperCase() + bundle.slice(1)} Template Bundle
+ * Loaded only on ${templateNames.join(", ")} templates (see snippets/template-bundles.liquid).
+ * Modules imported here and by storefront.${ext} end up in shared chunk-*.js files.
+ */
+
+import { createLogger } from '~/scripts/logger';
+
+const logger = createLogger('Template:${bundle}');
+
+logger.debug('Bundle loaded');
 `;
 
-  try {
-    await mkdir(".husky", { recursive: true });
-    await writeFile(".husky/pre-commit", preCommitHook);
-    await $`chmod +x .husky/pre-commit`;
-    log("✓ Pre-commit hook created", colors.green);
-  } catch (error) {
-    log("⚠️ Pre-commit hook creation skipped", colors.yellow);
+    await writeProjectFile(`frontend/templates/${bundle}.${ext}`, entrypoint);
+    log(`✓ frontend/templates/${bundle}.${ext} created`, colors.green);
   }
 
-  // Create lint-staged config
-  if (config.lintingSetup === "eslint-prettier") {
-    const lintStagedConfig = `{
-  "frontend/**/*.{js,ts}": [
-    "eslint --fix",
-    "prettier --write"
-  ],
-  "frontend/**/*.{css,scss}": [
-    "prettier --write"
-  ]
-}
+  const cases = config.templateBundles.map(bundle => `  {%- when ${templateBundleOptions[bundle].map(name => `'${name}'`).join(", ")} -%}
+    {% render 'vite-tag' with '~/templates/${bundle}.${ext}' %}`);
+
+  const snippet = `{%- comment -%}
+  Loads the bundle for the current template from frontend/templates/.
+  Render it in layout/theme.liquid after the storefront entrypoint's vite-tag.
+  Generated by setup; add a "when" for every new file in frontend/templates/.
+{%- endcomment -%}
+{%- case template.name -%}
+${cases.join("\n")}
+{%- endcase -%}
 `;
-    await writeFile(".lintstagedrc", lintStagedConfig);
-    log("✓ .lintstagedrc created", colors.green);
-  }
 
-  // Add scripts to package.json
-  log("  Adding lint scripts to package.json...", colors.cyan);
-  try {
-    const { readFile } = await import("node:fs/promises");
-    const packageJsonContent = await readFile("package.json", "utf-8");
-    const packageJson = JSON.parse(packageJsonContent);
-
-    packageJson.scripts = packageJson.scripts || {};
-    packageJson.scripts.lint = config.lintingSetup === "eslint-prettier"
-      ? "eslint frontend/"
-      : "shopify theme check";
-    packageJson.scripts["lint:fix"] = config.lintingSetup === "eslint-prettier"
-      ? "eslint frontend/ --fix"
-      : "shopify theme check --auto-correct";
-    packageJson.scripts.format = "prettier --write frontend/";
-    packageJson.scripts.prepare = "husky";
-
-    await writeFile("package.json", JSON.stringify(packageJson, null, 2));
-    log("✓ Lint scripts added to package.json", colors.green);
-  } catch (error) {
-    log("⚠️ Could not update package.json scripts", colors.yellow);
-  }
+  await writeProjectFile("snippets/template-bundles.liquid", snippet);
+  log("✓ snippets/template-bundles.liquid created", colors.green);
 }
 
-async function addTomlToGitignore() {
-  header("Securing shopify.theme.toml");
-
-  const { readFile } = await import("node:fs/promises");
+async function createTypeConfig(config: SetupConfig) {
+  header("Creating Type Declarations");
+
+  // Shared by tsconfig.json and jsconfig.json; paths mirror the '~' alias in vite.config.js
+  const compilerOptions = {
+    target: "ES2022",
+    module: "ESNext",
+    moduleResolution: "bundler",
+    lib: ["ES2022", "DOM", "DOM.Iterable"],
+    types: ["vite/client"],
+    noEmit: true,
+    isolatedModules: true,
+    skipLibCheck: true,
+    paths: {
+      "~/*": ["./frontend/*"],
+    },
+  };
 
-  try {
-    let gitignoreContent = await readFile(".gitignore", "utf-8");
+  if (config.jsApproach === "typescript") {
+    const tsconfig = {
+      compilerOptions: { ...compilerOptions, strict: true },
+      include: ["frontend/**/*"],
+    };
 
-    // Check if shopify.theme.toml is already in gitignore
-    if (!gitignoreContent.includes("shopify.theme.toml")) {
-      // Add it under the Shopify theme files section
-      gitignoreContent = gitignoreContent.replace(
-        "# Shopify theme files\nconfig/settings_data.json",
-        "# Shopify theme files\nconfig/settings_data.json\nshopify.theme.toml"
-      );
+    await writeProjectFile("tsconfig.json", JSON.stringify(tsconfig, null, 2) + "\n");
+    log("✓ tsconfig.json created", colors.green);
+  } else {
+    // Type-checks the plain JavaScript through JSDoc and the .d.ts files below
+    const jsconfig = {
+      compilerOptions: { ...compilerOptions, checkJs: true, strict: false },
+      include: ["frontend/**/*"],
+    };
 
-      await writeFile(".gitignore", gitignoreContent);
-      log("✓ shopify.theme.toml added to .gitignore", colors.green);
-      log("  Your store credentials are now protected from being committed", colors.cyan);
-    } else {
-      log("✓ shopify.theme.toml already in .gitignore", colors.green);
-    }
-  } catch (error) {
-    log("✗ Error updating .gitignore", colors.red);
-    console.error(error);
+    await writeProjectFile("jsconfig.json", JSON.stringify(jsconfig, null, 2) + "\n");
+    log("✓ jsconfig.json created (checkJs enabled)", colors.green);
   }
-}
-
-async function createCoreFiles() {
-  header("Creating Core Utility Files");
 
-  // utils.js
-  const utilsJs = `/**
- * Core Utility Functions
+  const shopifyGlobals = `/**
+ * Shopify Storefront Globals
+ * Ambient types for the objects Shopify and the theme put on window, and for
+ * the theme editor's shopify:section:* and shopify:block:* events.
+ * https://shopify.dev/docs/storefronts/themes/best-practices/editor/integrate-sections-and-blocks
  */
 
-export function consoleMessage(message, type = 'log', data = null) {
-  if (!window.${await prompt("Enter your project name again for utils:")} || !window.${await prompt("Enter your project name again for utils:")}.settings?.devMode) return;
+interface ShopifyCurrency {
+  /** ISO code of the currency the customer is shopping in, e.g. 'CAD' */
+  active: string;
+  /** Conversion rate from the store's default currency */
+  rate: string;
+}
 
-  const prefix = '[Theme]';
-  const styles = {
-    log: 'color: #3b82f6',
-    info: 'color: #10b981',
-    warn: 'color: #f59e0b',
-    error: 'color: #ef4444',
-  };
+interface ShopifyThemeInfo {
+  id: number;
+  name: string;
+  role: 'main' | 'unpublished' | 'demo' | 'development';
+  theme_store_id: number | null;
+}
 
-  console[type](\`%c\${prefix} \${message}\`, styles[type] || styles.log, data || '');
+/** Only present when the theme exposes it, e.g. window.Shopify.cart = {{ cart | json }} */
+interface ShopifyCartSnapshot {
+  item_count: number;
+  total_price: number;
+  currency: string;
 }
 
-export function reportWebVitals() {
-  if ('PerformanceObserver' in window) {
-    const observer = new PerformanceObserver((list) => {
-      for (const entry of list.getEntries()) {
-        consoleMessage(\`Web Vital: \${entry.name} = \${entry.value.toFixed(2)}ms\`, 'info');
-      }
-    });
+interface ShopifyGlobal {
+  shop: string;
+  locale: string;
+  country: string;
+  currency: ShopifyCurrency;
+  routes: { root: string };
+  theme: ShopifyThemeInfo;
+  /** true inside the theme editor */
+  designMode?: boolean;
+  /** true while the theme editor inspector is active */
+  inspectMode?: boolean;
+  cart?: ShopifyCartSnapshot;
+}
 
-    observer.observe({ entryTypes: ['paint', 'largest-contentful-paint'] });
-  }
+/** Settings the theme prints into window.theme, e.g. moneyFormat: {{ shop.money_format | json }} */
+interface ThemeGlobal {
+  moneyFormat?: string;
+  /** {{ template | json }}, e.g. 'product' or 'page.contact' */
+  template?: string;
 }
 
-export function initGlobalEvents() {
-  // Add global event listeners here
-  document.addEventListener('click', (e) => {
-    // Handle global clicks
-  });
+interface Window {
+  Shopify?: ShopifyGlobal;
+  theme?: ThemeGlobal;
 }
 
-export function handleUrlParams() {
-  const params = new URLSearchParams(window.location.search);
+interface ShopifySectionEventDetail {
+  sectionId: string;
+}
 
-  // Handle specific URL parameters
-  if (params.has('cart_open')) {
-    // Open cart
-    consoleMessage('Opening cart from URL parameter', 'info');
-  }
+interface ShopifySectionSelectEventDetail extends ShopifySectionEventDetail {
+  /** true when the section was selected because it just loaded */
+  load: boolean;
 }
 
-export function debounce(func, wait) {
-  let timeout;
-  return function executedFunction(...args) {
-    const later = () => {
-      clearTimeout(timeout);
-      func(...args);
-    };
-    clearTimeout(timeout);
-    timeout = setTimeout(later, wait);
-  };
+interface ShopifyBlockEventDetail {
+  sectionId: string;
+  blockId: string;
 }
-`;
 
-  await writeFile("frontend/scripts/utils.js", utilsJs);
-  log("✓ utils.js created", colors.green);
+interface ShopifyBlockSelectEventDetail extends ShopifyBlockEventDetail {
+  /** true when the block was selected because its section just loaded */
+  load: boolean;
+}
 
-  // Section registry
-  const sectionRegistry = `/**
- * Section Registry
- * Manages section lifecycles for Shopify Theme Editor
- */
+/** Events the theme editor dispatches on section and block elements; they bubble to document */
+interface ShopifyThemeEditorEventMap {
+  'shopify:section:load': CustomEvent<ShopifySectionEventDetail>;
+  'shopify:section:unload': CustomEvent<ShopifySectionEventDetail>;
+  'shopify:section:select': CustomEvent<ShopifySectionSelectEventDetail>;
+  'shopify:section:deselect': CustomEvent<ShopifySectionEventDetail>;
+  'shopify:section:reorder': CustomEvent<ShopifySectionEventDetail>;
+  'shopify:block:select': CustomEvent<ShopifyBlockSelectEventDetail>;
+  'shopify:block:deselect': CustomEvent<ShopifyBlockEventDetail>;
+  'shopify:inspector:activate': CustomEvent<null>;
+  'shopify:inspector:deactivate': CustomEvent<null>;
+}
 
-const sectionInstances = new Map();
+interface DocumentEventMap extends ShopifyThemeEditorEventMap {}
+interface HTMLElementEventMap extends ShopifyThemeEditorEventMap {}
+`;
 
-export function registerSection(sectionId, callbacks) {
-  if (!sectionInstances.has(sectionId)) {
-    sectionInstances.set(sectionId, []);
-  }
-  sectionInstances.get(sectionId).push(callbacks);
-}
+  await makeDirectory("frontend/types");
+  await writeProjectFile("frontend/types/shopify-globals.d.ts", shopifyGlobals);
+  log("✓ shopify-globals.d.ts created", colors.green);
 
-export function registerSectionLifecycles() {
-  if (typeof window.Shopify !== 'undefined' && window.Shopify.designMode) {
-    document.addEventListener('shopify:section:load', (event) => {
-      const sectionId = event.target.dataset.sectionId;
-      const callbacks = sectionInstances.get(sectionId);
-      if (callbacks) {
-        callbacks.forEach(cb => cb.onLoad?.(event.target));
-      }
-    });
+  // Build info that vite.config.js defines
+  const viteEnv = `/**
+ * Build-time values defined in vite.config.js
+ */
 
-    document.addEventListener('shopify:section:unload', (event) => {
-      const sectionId = event.target.dataset.sectionId;
-      const callbacks = sectionInstances.get(sectionId);
-      if (callbacks) {
-        callbacks.forEach(cb => cb.onUnload?.(event.target));
-      }
-    });
-  } else {
-    // Initial load
-    const sections = document.querySelectorAll('[data-section-id]');
-    sections.forEach(section => {
-      const sectionId = section.dataset.sectionId;
-      const callbacks = sectionInstances.get(sectionId);
-      if (callbacks) {
-        callbacks.forEach(cb => cb.onLoad?.(section));
-      }
-    });
-  }
+interface ImportMetaEnv {
+  readonly THEME_VERSION: string;
+  readonly THEME_ENVIRONMENT: string;
+  /** False only in production builds */
+  readonly THEME_DEV: boolean;
+  readonly THEME_COMMIT: string;
 }
+
+// Imported by storefront for its side effect; vite/client in older releases,
+// such as the 6.0.8 the tunnel setup pins, doesn't declare it
+declare module 'vite/modulepreload-polyfill';
 `;
 
-  await writeFile("frontend/scripts/hooks/core/sectionRegistry.js", sectionRegistry);
-  log("✓ sectionRegistry.js created", colors.green);
+  await writeProjectFile("frontend/types/vite-env.d.ts", viteEnv);
+  log("✓ vite-env.d.ts created", colors.green);
 }
 
-async function pullShopifyTheme(config: SetupConfig) {
+async function pullShopifyTheme(config: SetupConfig): Promise<StepResult | void> {
   if (!config.themeId) {
     log("\nSkipping theme pull - no theme selected", colors.yellow);
-    return;
+    return stepSkipped("no theme selected");
   }
 
   header("Pulling Shopify Theme");
 
   try {
     log(`Pulling theme ${config.themeId} to ${config.shopifyEnvironment} environment...`, colors.cyan);
-    await $`shopify theme pull --theme ${config.themeId} --environment ${config.shopifyEnvironment}`;
+    await trackCommandWrites(() => run`shopify theme pull --theme ${config.themeId} --environment ${config.shopifyEnvironment}`);
     log("✓ Theme pulled successfully", colors.green);
   } catch (error) {
     log("✗ Error pulling theme", colors.red);
     console.error(error);
+    return stepFailed(error);
   }
 }
 
-async function initializeGit() {
+async function initializeGit(): Promise<StepResult | void> {
   header("Initializing Git Repository");
 
   try {
@@ -1495,51 +5015,51 @@ async function initializeGit() {
     try {
       await $`git rev-parse --git-dir`.quiet();
       log("Git repository already initialized", colors.yellow);
-      return;
+      return stepSkipped("already a Git repository");
     } catch {
       // Not a git repo, continue
     }
 
-    await $`git init`;
-    await $`git add .`;
-    await $`git commit -m "Initial commit: Shopify theme setup"`;
+    await run`git init`;
+    await run`git add .`;
+    await run`git commit -m "Initial commit: Shopify theme setup"`;
     log("✓ Git repository initialized", colors.green);
   } catch (error) {
     log("✗ Error initializing git", colors.red);
     console.error(error);
+    return stepFailed(error);
   }
 }
 
-async function runInitialBuild(config: SetupConfig) {
+async function runInitialBuild(config: SetupConfig): Promise<StepResult | void> {
   header("Running Initial Build");
 
   try {
     log("Building Vite assets for the first time...", colors.cyan);
 
-    if (config.packageManager === "bun") {
-      await $`bun run build`;
-    } else if (config.packageManager === "npm") {
-      await $`npm run build`;
-    } else if (config.packageManager === "pnpm") {
-      await $`pnpm run build`;
-    } else {
-      await $`yarn build`;
-    }
+    await trackCommandWrites(async () => {
+      if (config.packageManager === "bun") {
+        await run`bun run build`;
+      } else if (config.packageManager === "npm") {
+        await run`npm run build`;
+      } else if (config.packageManager === "pnpm") {
+        await run`pnpm run build`;
+      } else {
+        await run`yarn build`;
+      }
+    });
 
     log("✓ Initial build completed successfully", colors.green);
   } catch (error) {
     log("✗ Error during build", colors.red);
     console.error(error);
+    return stepFailed(error);
   }
 }
 
 async function updateClaudeMd(config: SetupConfig) {
   header("Updating CLAUDE.md with Project Context");
 
-  // Read existing CLAUDE.md
-  const { readFile } = await import("node:fs/promises");
-  const existingContent = await readFile("CLAUDE.md", "utf-8");
-
   // Create project-specific section
   const projectContext = `
 
@@ -1547,7 +5067,7 @@ async function updateClaudeMd(config: SetupConfig) {
 
 ## Project-Specific Context
 
-**Project Name**: ${config.projectName}
+**Project Name**: ${projectNames(config.projectName).displayName} (\`${config.projectName}\`)
 **Store Type**: ${config.projectType || "e-commerce"}
 **Description**: ${config.projectDescription || "Shopify theme development project"}
 
@@ -1585,6 +5105,9 @@ ${config.packageManager} run dev
 # Build assets
 ${config.packageManager} run build
 
+# Run the unit tests once
+${config.packageManager} run test
+
 # Deploy to Shopify
 ${config.packageManager} run deploy
 \`\`\`
@@ -1594,10 +5117,20 @@ ${config.packageManager} run deploy
 *This project context section is auto-generated. Update it as the project evolves.*
 `;
 
-  // Append to existing content
-  const updatedContent = existingContent + projectContext;
+  // Append to existing content, replacing the section left by a previous run
+  await writeProjectFile("CLAUDE.md", projectContext, {
+    merge: (existing, generated) => {
+      const start = existing.indexOf("\n\n---\n\n## Project-Specific Context");
+      if (start === -1) {
+        return existing + generated;
+      }
 
-  await writeFile("CLAUDE.md", updatedContent);
+      const footer = "*This project context section is auto-generated. Update it as the project evolves.*\n";
+      const footerIndex = existing.indexOf(footer, start);
+      const rest = footerIndex === -1 ? "" : existing.slice(footerIndex + footer.length);
+      return existing.slice(0, start) + generated + rest;
+    },
+  });
   log("✓ CLAUDE.md updated with project-specific context", colors.green);
 }
 
@@ -1631,16 +5164,304 @@ async function displayNextSteps(config: SetupConfig) {
 
   log("5. Commit your changes:", colors.cyan);
   log("   git add .", colors.yellow);
-  log(`   git commit -m "feat: Initial Shopify theme setup for ${config.projectName}"`, colors.yellow);
+  log(`   git commit -m "feat: Initial Shopify theme setup for ${projectNames(config.projectName).displayName}"`, colors.yellow);
   log("   git push\n", colors.yellow);
 
+  if (recorder.backups.size > 0) {
+    log(`Originals of ${recorder.backups.size} replaced file(s) were backed up to ${recorder.backupDir}\n`, colors.cyan);
+  }
+
   log("Happy coding! 🚀", colors.green + colors.bright);
 }
 
+type StepStatus = "success" | "failed" | "skipped";
+
+interface StepResult {
+  status: StepStatus;
+  reason?: string;
+}
+
+interface SetupStep {
+  id: string;
+  title: string;
+  run: (config: SetupConfig) => Promise<StepResult | void>;
+  // Steps that must have succeeded (or been skipped on purpose) before this one can run
+  dependsOn?: string[];
+}
+
+function stepSkipped(reason: string): StepResult {
+  return { status: "skipped", reason };
+}
+
+function stepFailed(error: unknown): StepResult {
+  return { status: "failed", reason: error instanceof Error ? error.message.split("\n")[0] : String(error) };
+}
+
+const setupSteps: SetupStep[] = [
+  { id: "package-json", title: "Create package.json", run: createPackageJson },
+  { id: "dependencies", title: "Install dependencies", run: installDependencies, dependsOn: ["package-json"] },
+  { id: "directories", title: "Create directory structure", run: createDirectoryStructure },
+  { id: "vite-config", title: "Create vite.config.js", run: createViteConfig },
+  { id: "postcss-config", title: "Create postcss.config.js", run: createPostCSSConfig },
+  { id: "gitignore", title: "Create .gitignore", run: createGitIgnore },
+  { id: "shopifyignore", title: "Create .shopifyignore", run: createShopifyIgnore },
+  { id: "github-workflow", title: "Create GitHub Actions workflow", run: createGitHubWorkflow, dependsOn: ["directories"] },
+  { id: "entrypoints", title: "Create entrypoints", run: createEntrypoints, dependsOn: ["directories"] },
+  { id: "core-files", title: "Create core utility files", run: createCoreFiles, dependsOn: ["directories"] },
+  { id: "type-config", title: "Create type declarations", run: createTypeConfig, dependsOn: ["directories"] },
+  { id: "components", title: "Create components", run: createComponents, dependsOn: ["directories"] },
+  { id: "template-bundles", title: "Create template bundles", run: createTemplateBundles, dependsOn: ["directories"] },
+  { id: "theme-toml", title: "Create Shopify theme config", run: createShopifyThemeToml },
+  { id: "linting", title: "Set up linting", run: setupLinting, dependsOn: ["package-json"] },
+  { id: "git-hooks", title: "Set up Git hooks", run: setupGitHooks, dependsOn: ["package-json", "linting"] },
+  { id: "theme-pull", title: "Pull Shopify theme", run: pullShopifyTheme },
+  {
+    id: "initial-build",
+    title: "Run initial build",
+    run: runInitialBuild,
+    dependsOn: ["dependencies", "vite-config", "postcss-config", "entrypoints", "core-files", "type-config", "components", "template-bundles"],
+  },
+  { id: "claude-md", title: "Update CLAUDE.md", run: updateClaudeMd },
+  { id: "git-init", title: "Initialize Git repository", run: initializeGit, dependsOn: ["gitignore"] },
+  // IMPORTANT: Add .toml to gitignore as the LAST step to protect credentials
+  { id: "toml-gitignore", title: "Add shopify.theme.toml to .gitignore", run: addTomlToGitignore, dependsOn: ["gitignore"] },
+];
+
+// Paths created by commands (installs, husky, git) rather than by writeProjectFile
+const commandOutputs = [
+  "node_modules",
+  "bun.lock",
+  "bun.lockb",
+  "package-lock.json",
+  "pnpm-lock.yaml",
+  "yarn.lock",
+  ".husky",
+  ".git",
+];
+
+const stateFile = ".shopify-setup-state.json";
+
+interface SetupState {
+  // Checked with isCompleteConfig() before use; a hand-edited file may lack answers
+  config: Partial<SetupConfig>;
+  completedSteps: string[];
+  updatedAt: string;
+}
+
+async function loadSetupState(): Promise<SetupState | null> {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(await readFile(stateFile, "utf-8"));
+  } catch {
+    return null;
+  }
+
+  const { config, completedSteps, updatedAt } = typeof raw === "object" && raw !== null ? (raw as Record<string, unknown>) : {};
+  if (typeof config !== "object" || config === null || Array.isArray(config) || !Array.isArray(completedSteps)) {
+    throw new Error(`${stateFile} is not a valid setup state file. Delete it to start over.`);
+  }
+
+  return {
+    // State files written by older versions of setup lack the newer answers
+    config: { templateBundles: [], hashedAssets: false, ...validatePreset(config as Record<string, unknown>, stateFile) },
+    completedSteps: completedSteps.filter((id): id is string => setupSteps.some(step => step.id === id)),
+    updatedAt: String(updatedAt ?? ""),
+  };
+}
+
+async function saveSetupState(config: SetupConfig, completedSteps: string[]) {
+  if (recorder.dryRun) return;
+
+  const state: SetupState = { config, completedSteps, updatedAt: new Date().toISOString() };
+  await writeFile(stateFile, JSON.stringify(state, null, 2));
+}
+
+async function clearSetupState() {
+  if (recorder.dryRun) return;
+  await rm(stateFile, { force: true });
+}
+
+async function pathExists(path: string): Promise<boolean> {
+  try {
+    await stat(path);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Runs the setup steps in order. A step whose dependency failed is skipped
+ * rather than run against a half-configured project. With rollbackOnFailure
+ * the first failure stops the run and everything it changed is undone.
+ *
+ * Progress is saved to the state file after every step, so steps listed in
+ * previouslyCompleted (from a --resume) are not run again.
+ */
+async function runSetupSteps(
+  config: SetupConfig,
+  rollbackOnFailure: boolean,
+  previouslyCompleted: string[] = []
+): Promise<Map<string, StepResult>> {
+  const results = new Map<string, StepResult>();
+  const blocked = new Set<string>();
+  const existingOutputs = new Set<string>();
+  const completed = [...previouslyCompleted];
+
+  for (const path of commandOutputs) {
+    if (await pathExists(path)) existingOutputs.add(path);
+  }
+
+  await saveSetupState(config, completed);
+
+  for (const step of setupSteps) {
+    if (completed.includes(step.id)) {
+      results.set(step.id, { status: "success", reason: "completed in a previous run" });
+      log(`✓ ${step.title} (completed in a previous run)`, colors.green);
+      continue;
+    }
+
+    const failedDependency = step.dependsOn?.find(id => results.get(id)?.status === "failed" || blocked.has(id));
+    if (failedDependency) {
+      blocked.add(step.id);
+      results.set(step.id, stepSkipped(`"${failedDependency}" did not complete`));
+      log(`\n⏭️  Skipping "${step.title}" because "${failedDependency}" did not complete`, colors.yellow);
+      continue;
+    }
+
+    let result: StepResult;
+    try {
+      result = (await step.run(config)) || { status: "success" };
+    } catch (error) {
+      log(`✗ ${step.title} failed`, colors.red);
+      console.error(error);
+      result = stepFailed(error);
+    }
+    results.set(step.id, result);
+
+    if (result.status !== "failed") {
+      completed.push(step.id);
+      await saveSetupState(config, completed);
+    } else if (rollbackOnFailure && !recorder.dryRun) {
+      await rollback(existingOutputs);
+      await saveSetupState(config, previouslyCompleted);
+      break;
+    }
+  }
+
+  return results;
+}
+
+async function rollback(existingOutputs: Set<string>) {
+  header("Rolling Back Changes");
+
+  for (const path of [...recorder.created].reverse()) {
+    try {
+      await rm(path, { force: true });
+      log(`✓ Removed: ${path}`, colors.green);
+    } catch (error) {
+      log(`✗ Could not remove: ${path}`, colors.red);
+    }
+  }
+
+  for (const [path, backupPath] of recorder.backups) {
+    try {
+      await copyFile(backupPath, path);
+      log(`✓ Restored: ${path}`, colors.green);
+    } catch (error) {
+      log(`✗ Could not restore ${path} from ${backupPath}`, colors.red);
+    }
+  }
+
+  for (const path of commandOutputs) {
+    if (existingOutputs.has(path) || !(await pathExists(path))) continue;
+    await rm(path, { recursive: true, force: true });
+    log(`✓ Removed: ${path}`, colors.green);
+  }
+
+  // Directories are only removed once empty, so nothing created outside this run is lost
+  for (const dir of [...recorder.createdDirs].reverse()) {
+    if (!(await removeEmptyDirectories(dir))) {
+      log(`⚠️  Left ${dir} in place (not empty)`, colors.yellow);
+    }
+  }
+
+  if (recorder.backups.size > 0) {
+    log(`\nBackups are kept in ${recorder.backupDir}`, colors.cyan);
+  }
+}
+
+async function removeEmptyDirectories(dir: string): Promise<boolean> {
+  try {
+    const entries = await readdir(dir, { withFileTypes: true });
+    for (const entry of entries) {
+      if (entry.isDirectory()) await removeEmptyDirectories(join(dir, entry.name));
+    }
+    await rmdir(dir);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function displayStepSummary(results: Map<string, StepResult>) {
+  header("Step Summary");
+
+  for (const step of setupSteps) {
+    const result = results.get(step.id);
+    if (!result) {
+      log(`  ·  ${step.title} (not run)`, colors.bright);
+    } else if (result.status === "success") {
+      log(`  ✓  ${step.title}`, colors.green);
+    } else if (result.status === "skipped") {
+      log(`  ⏭️  ${step.title} - ${result.reason}`, colors.yellow);
+    } else {
+      log(`  ✗  ${step.title} - ${result.reason}`, colors.red);
+    }
+  }
+}
+
 // Main execution
 async function main() {
   try {
-    const config = await askQuestions();
+    const options = await parseCliOptions(Bun.argv.slice(2));
+    recorder.dryRun = options.dryRun;
+    recorder.onConflict = options.onConflict;
+
+    const savedState = await loadSetupState();
+    let resumeState: SetupState | null = null;
+
+    if (options.resume) {
+      if (!savedState) {
+        throw new Error(`Nothing to resume: ${stateFile} not found`);
+      }
+      resumeState = savedState;
+    } else if (savedState && !options.yes) {
+      log(`\n⚠️  A previous setup did not finish (last updated ${savedState.updatedAt}).`, colors.yellow);
+      const answer = await prompt("Resume it instead of starting over? (y/n):");
+      if (answer.toLowerCase() === "y" || answer.toLowerCase() === "yes") {
+        resumeState = savedState;
+      }
+    }
+
+    if (resumeState) {
+      const remaining = setupSteps.filter(step => !resumeState.completedSteps.includes(step.id));
+      log(`\nResuming setup from "${remaining[0]?.title ?? "the end"}" with the saved answers.`, colors.cyan);
+    }
+
+    let config: SetupConfig;
+    if (!resumeState) {
+      config = await askQuestions(options.preset);
+    } else {
+      // Answers given with --config or flags take precedence over the saved ones
+      const resumed = { ...resumeState.config, ...options.preset };
+      if (isCompleteConfig(resumed)) {
+        config = resumed;
+      } else {
+        log(`⚠️  ${stateFile} is missing some answers; asking for those again.`, colors.yellow);
+        config = await askQuestions(resumed);
+      }
+    }
 
     // Confirm before proceeding
     log("\n" + "=".repeat(60), colors.bright);
@@ -1656,39 +5477,43 @@ async function main() {
     }
     log(`Linting: ${config.lintingSetup === "eslint-prettier" ? "ESLint + Prettier" : config.lintingSetup === "theme-check" ? "Theme Check" : "None"}`, colors.cyan);
     log(`Git Hooks: ${config.gitHooks ? "Yes (husky + lint-staged)" : "No"}`, colors.cyan);
+    log(`Template Bundles: ${config.templateBundles.join(", ") || "None"}`, colors.cyan);
+    log(`Asset Filenames: ${config.hashedAssets ? "Content-hashed" : "Stable"}`, colors.cyan);
     log(`Environment: ${config.shopifyEnvironment}`, colors.cyan);
     if (config.themeId) {
       log(`Theme ID: ${config.themeId}`, colors.cyan);
     }
     log("=".repeat(60) + "\n", colors.bright);
 
-    const confirm = await prompt("Proceed with setup? (y/n):");
-    if (confirm.toLowerCase() !== "y" && confirm.toLowerCase() !== "yes") {
-      log("Setup cancelled.", colors.yellow);
-      process.exit(0);
+    if (!options.yes) {
+      const confirm = await prompt("Proceed with setup? (y/n):");
+      if (confirm.toLowerCase() !== "y" && confirm.toLowerCase() !== "yes") {
+        log("Setup cancelled.", colors.yellow);
+        process.exit(0);
+      }
+    }
+
+    if (recorder.dryRun) {
+      log("Dry run: files and commands below are only planned, nothing will be written or executed.", colors.magenta);
     }
 
     // Run setup steps
-    await createPackageJson(config);
-    await installDependencies(config);
-    await createDirectoryStructure();
-    await createViteConfig(config);
-    await createPostCSSConfig(config);
-    await createGitIgnore();
-    await createShopifyIgnore();
-    await createGitHubWorkflow(config);
-    await createEntrypoints(config);
-    await createCoreFiles();
-    await createShopifyThemeToml(config);
-    await setupLinting(config);
-    await setupGitHooks(config);
-    await pullShopifyTheme(config);
-    await runInitialBuild(config);
-    await updateClaudeMd(config);
-    await initializeGit();
-    // IMPORTANT: Add .toml to gitignore as the LAST step to protect credentials
-    await addTomlToGitignore();
-    await displayNextSteps(config);
+    const results = await runSetupSteps(config, options.rollbackOnFailure, resumeState?.completedSteps);
+    const failedSteps = setupSteps.filter(step => results.get(step.id)?.status === "failed");
+
+    displayStepSummary(results);
+
+    if (recorder.dryRun) {
+      displayDryRunSummary();
+    } else if (failedSteps.length > 0) {
+      header(options.rollbackOnFailure ? "Setup Failed - Changes Rolled Back" : "Setup Finished With Errors");
+      log(`${failedSteps.length} step(s) failed: ${failedSteps.map(step => step.title).join(", ")}`, colors.red);
+      log("Fix the errors above and run 'bun setup.ts --resume' to continue from the first unfinished step.", colors.yellow);
+      process.exit(1);
+    } else {
+      await clearSetupState();
+      await displayNextSteps(config);
+    }
 
   } catch (error) {
     log("\n✗ Setup failed with error:", colors.red);